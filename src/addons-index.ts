@@ -0,0 +1,290 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as Result from "./Result";
+import { parseManifest } from "./manifest";
+import { DependencyGraph } from "./dependency-graph";
+import { debounce, tryRunShellCommand } from "./helpers";
+
+/**
+ * Only what is needed to list the addons and their dependencies is indexed, the rest of the
+ * manifest is read with `readManifest`.
+ */
+export type AddonInfo = {
+  name: string;
+  path: string;
+  /**
+   * Name of the repository that contains the addon, e.g. `odoo` or `enterprise`.
+   */
+  repo: string;
+  depends: string[];
+  installable: boolean;
+};
+
+/**
+ * A folder that contains addons, e.g. `odoo/addons`.
+ */
+export type AddonsRoot = { repo: string; path: string };
+
+type PersistedIndex = { key: string; addons: AddonInfo[] };
+
+const INDEX_KEY = "odooDev.addonsIndex";
+
+/**
+ * In-memory index of the addons of the active branch: their paths, manifests and dependencies.
+ * - It's persisted between sessions, the persisted index is reused if the roots, the HEAD of
+ *   their repositories and the modification times of their manifests didn't change.
+ * - Changes of the manifests are picked up by a file system watcher.
+ * - When an addon is in multiple roots, the first root wins, as in the `addons_path` of odoo.
+ */
+export class AddonsIndex implements vscode.Disposable {
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private addons = new Map<string, AddonInfo>();
+  private key: string | undefined;
+  private graph: DependencyGraph | undefined;
+  private loading: Promise<void> = Promise.resolve();
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly schedulePersist = debounce(() => this.persist(), 1000);
+  readonly scheduleLoad = debounce(() => this.load(), 1000);
+
+  constructor(
+    private globalState: vscode.ExtensionContext["globalState"],
+    private getRoots: () => AddonsRoot[]
+  ) {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/__manifest__.py");
+    this.disposables.push(
+      this._onDidChange,
+      watcher,
+      watcher.onDidCreate((uri) => this.onDidChangeManifest(uri)),
+      watcher.onDidChange((uri) => this.onDidChangeManifest(uri)),
+      watcher.onDidDelete((uri) => this.onDidChangeManifest(uri))
+    );
+  }
+
+  dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  /**
+   * Resolves when the index is loaded.
+   */
+  ready() {
+    return this.loading;
+  }
+
+  /**
+   * Loads the index if the roots, the HEAD of their repositories or their manifests changed.
+   * The persisted index is used when it matches, otherwise, the roots are scanned.
+   */
+  load() {
+    this.loading = this.loading
+      .then(async () => {
+        const roots = this.getRoots();
+        const key = await this.getKey(roots);
+        if (key === this.key) {
+          return;
+        }
+        const persisted = this.globalState.get<PersistedIndex>(INDEX_KEY);
+        if (persisted && persisted.key === key) {
+          this.setAddons(key, persisted.addons);
+        } else {
+          this.setAddons(key, await this.scan(roots));
+          await this.persist();
+        }
+      })
+      .catch((error) => {
+        vscode.window.showErrorMessage(`Failed to index the addons: ${(error as Error).message}`);
+      });
+    return this.loading;
+  }
+
+  /**
+   * Scans the roots again, regardless of the persisted index.
+   */
+  rebuild() {
+    this.key = undefined;
+    this.globalState.update(INDEX_KEY, undefined);
+    return this.load();
+  }
+
+  get(name: string) {
+    return this.addons.get(name);
+  }
+
+  getPath(name: string) {
+    return this.addons.get(name)?.path;
+  }
+
+  /**
+   * The whole manifest of the addon, read from its file.
+   * @returns undefined if the addon is not indexed
+   */
+  async readManifest(name: string) {
+    const addon = this.addons.get(name);
+    if (!addon) {
+      return undefined;
+    }
+    return parseManifest(await fs.promises.readFile(`${addon.path}/__manifest__.py`, "utf8"));
+  }
+
+  /**
+   * Names of the installable addons, sorted.
+   */
+  getNames() {
+    return this.getAddons()
+      .filter((addon) => addon.installable)
+      .map((addon) => addon.name)
+      .sort();
+  }
+
+  /**
+   * @param repo only the addons of this repository are returned
+   */
+  getAddons(repo?: string) {
+    const addons = [...this.addons.values()];
+    return repo ? addons.filter((addon) => addon.repo === repo) : addons;
+  }
+
+  /**
+   * Dependency graph of the installable addons, it's rebuilt when the index changes.
+   */
+  getGraph() {
+    if (!this.graph) {
+      const dependencies: Record<string, string[]> = {};
+      for (const addon of this.addons.values()) {
+        if (addon.installable) {
+          dependencies[addon.name] = addon.depends;
+        }
+      }
+      this.graph = new DependencyGraph(dependencies);
+    }
+    return this.graph;
+  }
+
+  private setAddons(key: string, addons: AddonInfo[]) {
+    this.key = key;
+    this.addons = new Map();
+    for (const addon of addons) {
+      if (!this.addons.has(addon.name)) {
+        this.addons.set(addon.name, addon);
+      }
+    }
+    this.graph = undefined;
+    this._onDidChange.fire();
+  }
+
+  private persist() {
+    if (!this.key) {
+      return;
+    }
+    const persisted: PersistedIndex = { key: this.key, addons: [...this.addons.values()] };
+    return this.globalState.update(INDEX_KEY, persisted);
+  }
+
+  /**
+   * The manifests can change without commit, e.g. with a stash or an edit while vscode was closed,
+   * their modification times are part of the key.
+   */
+  private async getKey(roots: AddonsRoot[]) {
+    const states = await Promise.all(
+      roots.map(async (root) => {
+        const result = await tryRunShellCommand("git rev-parse HEAD", { cwd: root.path });
+        const head = Result.check(result) ? result.value.trim() : "";
+        return [root.path, head, await this.getManifestsHash(root)];
+      })
+    );
+    return JSON.stringify(states);
+  }
+
+  /**
+   * Hash of the names and modification times of the manifests of the root.
+   */
+  private async getManifestsHash(root: AddonsRoot) {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(root.path);
+    } catch (error) {
+      return "";
+    }
+    const mtimes = await Promise.all(
+      names.sort().map(async (name) => {
+        try {
+          const stat = await fs.promises.stat(`${root.path}/${name}/__manifest__.py`);
+          return `${name}:${stat.mtimeMs}`;
+        } catch (error) {
+          return "";
+        }
+      })
+    );
+    return crypto.createHash("sha1").update(mtimes.join("\n")).digest("hex");
+  }
+
+  private async scan(roots: AddonsRoot[]) {
+    const addons: AddonInfo[] = [];
+    for (const root of roots) {
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(root.path);
+      } catch (error) {
+        continue;
+      }
+      const infos = await Promise.all(names.map((name) => this.readAddon(root, name)));
+      for (const info of infos) {
+        if (info) {
+          addons.push(info);
+        }
+      }
+    }
+    return addons;
+  }
+
+  /**
+   * @returns undefined if the folder is not an addon
+   */
+  private async readAddon(root: AddonsRoot, name: string): Promise<AddonInfo | undefined> {
+    const addonPath = `${root.path}/${name}`;
+    let content: string;
+    try {
+      content = await fs.promises.readFile(`${addonPath}/__manifest__.py`, "utf8");
+    } catch (error) {
+      return undefined;
+    }
+    // An addon with an unreadable manifest is still listed, without dependencies.
+    const result = Result.try_(parseManifest, content);
+    const manifest = Result.check(result) ? result.value : parseManifest("{}");
+    const { depends, installable } = manifest;
+    return { name, path: addonPath, repo: root.repo, depends, installable };
+  }
+
+  private async onDidChangeManifest(uri: vscode.Uri) {
+    await this.loading;
+    const addonPath = path.dirname(uri.fsPath);
+    const name = path.basename(addonPath);
+    const roots = this.getRoots();
+    if (!roots.some((root) => root.path === path.dirname(addonPath))) {
+      return;
+    }
+    // The created or deleted addon can hide, or reveal, the one of another root.
+    let info: AddonInfo | undefined;
+    for (const root of roots) {
+      info = await this.readAddon(root, name);
+      if (info) {
+        break;
+      }
+    }
+    if (info) {
+      this.addons.set(name, info);
+    } else {
+      this.addons.delete(name);
+    }
+    this.graph = undefined;
+    this._onDidChange.fire();
+    this.schedulePersist();
+  }
+}
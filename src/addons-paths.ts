@@ -0,0 +1,56 @@
+// Resolution of the folders that contain the addons.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * Resolves a comma-separated list of folders, e.g. the `addons_path` of the odoo config.
+ * @param cwd relative paths are resolved from it
+ */
+export function parseAddonsPath(value: string, cwd: string): string[] {
+  const paths = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+    .map((item) => path.resolve(cwd, item.replace(/^~(?=$|\/)/, os.homedir())));
+  return [...new Set(paths)];
+}
+
+const isAddonFolder = (folderPath: string) => {
+  return fs.existsSync(path.join(folderPath, "__manifest__.py"));
+};
+
+const getSubfolders = (folderPath: string) => {
+  try {
+    return fs
+      .readdirSync(folderPath, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => path.join(folderPath, entry.name))
+      .sort();
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * Folders of the repository that contain addons: the root of the repository if it contains
+ * addons, otherwise, its subfolders that contain addons (e.g. `<repo>/addons`, `<repo>/themes`).
+ */
+export function findAddonsFolders(repoPath: string): string[] {
+  const subfolders = getSubfolders(repoPath);
+  if (subfolders.some(isAddonFolder)) {
+    return [repoPath];
+  }
+  const folders = subfolders.filter((folder) => getSubfolders(folder).some(isAddonFolder));
+  return folders.length > 0 ? folders : [repoPath];
+}
+
+/**
+ * Sorts the repositories other than the community one for the `addons_path`: `enterprise` first,
+ * then the others by name. The order in which git opens the repositories is not stable.
+ */
+export function sortCustomRepos<T>(repos: [string, T][]): [string, T][] {
+  const rank = (name: string) => (name === "enterprise" ? 0 : 1);
+  return [...repos].sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+}
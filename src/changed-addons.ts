@@ -0,0 +1,75 @@
+// Addons modified by a dev branch, from the diff of its repositories against the base branch.
+
+import * as path from "path";
+import { LINE_BREAK_REGEX } from "./constants";
+
+export type FileDiffStat = {
+  /**
+   * Relative to the root of the repository.
+   */
+  file: string;
+  added: number;
+  deleted: number;
+};
+
+export type ChangedAddon = {
+  name: string;
+  repo: string;
+  files: number;
+  added: number;
+  deleted: number;
+};
+
+/**
+ * Parses the output of `git diff --numstat --no-renames`. Binary files count as 0 lines.
+ */
+export function parseNumstat(output: string): FileDiffStat[] {
+  const stats: FileDiffStat[] = [];
+  for (const line of output.split(LINE_BREAK_REGEX)) {
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+    if (match) {
+      const [, added, deleted, file] = match;
+      stats.push({
+        file,
+        added: added === "-" ? 0 : parseInt(added),
+        deleted: deleted === "-" ? 0 : parseInt(deleted),
+      });
+    }
+  }
+  return stats;
+}
+
+/**
+ * Groups the changed files by addon, the files outside of the addons are ignored.
+ * @param stats the files of each repository, by the path of its checkout
+ * @param addons the addons of the index, with their path
+ */
+export function getChangedAddons(
+  stats: [string, FileDiffStat[]][],
+  addons: { name: string; path: string; repo: string }[]
+): ChangedAddon[] {
+  const changed = new Map<string, ChangedAddon>();
+  for (const [repoPath, files] of stats) {
+    for (const { file, added, deleted } of files) {
+      const filePath = path.join(repoPath, file);
+      const addon = addons.find((a) => filePath.startsWith(a.path + path.sep));
+      if (!addon) {
+        continue;
+      }
+      const item = changed.get(addon.name) || {
+        name: addon.name,
+        repo: addon.repo,
+        files: 0,
+        added: 0,
+        deleted: 0,
+      };
+      changed.set(addon.name, {
+        ...item,
+        files: item.files + 1,
+        added: item.added + added,
+        deleted: item.deleted + deleted,
+      });
+    }
+  }
+  return [...changed.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
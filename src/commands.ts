@@ -2,18 +2,23 @@
 import * as vscode from "vscode";
 import * as Result from "./Result";
 import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import fetch from "node-fetch";
 import {
   createTemplateNote,
   fileExists,
-  getAddons,
   getBase,
   getPositionFromIndex,
+  getServerProfiles,
   inferBaseBranch,
   isBaseBranch,
   isValidDirectory,
+  joinArgs,
+  openInBrowser,
   runShellCommand,
-  zip,
+  ServerProfile,
+  splitArgs,
   startDebugging,
 } from "./helpers";
 import { type ContextualUtils } from "./contextualUtils";
@@ -21,32 +26,43 @@ import { OdooDevBranch } from "./odoo_dev_branch";
 import {
   DEBUG_JS_NAME,
   DEBUG_ODOO_SHELL,
-  DEBUG_PYTHON_NAME,
   DEV_BRANCH_REGEX,
-  ODOO_SERVER_TERMINAL,
   ODOO_SHELL_TERMINAL,
 } from "./constants";
 import { withProgress } from "./decorators";
-import {
-  addBaseBranch,
-  addDevBranch,
-  devBranchExists,
-  getBaseBranches,
-  getDevBranches,
-  removeDevBranch,
-} from "./state";
 import { Repository } from "./dependencies/git";
+import { getWorktreePath, isWorktreeMode } from "./worktrees";
+import { OdooDatabase } from "./odoo_databases";
+import { OdooAddon } from "./odoo_addons";
+import { DependencyGraphPanel } from "./odoo_dependency_graph";
+import { ServerLogPanel } from "./odoo_log_panel";
+import { layoutDependencyGraph } from "./dependency-graph";
+import { DBSnapshot } from "./db-snapshots";
+import { CONFIG_OPTIONS } from "./config-overrides";
+import { parseTestFile } from "./test-parser";
+import { TourInfo, findTours } from "./tours";
+import {
+  createDatabase,
+  databaseExists,
+  dropDatabase,
+  dumpDatabase,
+  duplicateDatabase,
+  filestore,
+  listDatabases,
+  renameDatabase,
+  restoreDatabase,
+} from "./databases";
 
 const odooDevOutput = vscode.window.createOutputChannel("Odoo Dev");
 
-function createCommand<T>(
+function createCommand<T, I = OdooDevBranch>(
   name: string,
-  cb: (utils: ContextualUtils, item?: OdooDevBranch) => Promise<T>
+  cb: (utils: ContextualUtils, item?: I) => Promise<T>
 ) {
   return (utils: ContextualUtils) => {
     return {
       name,
-      method: async (item?: OdooDevBranch) => {
+      method: async (item?: I) => {
         const result = await Result.try_(cb, utils, item);
         if (!Result.check(result)) {
           const message = result.error.message;
@@ -78,7 +94,7 @@ export const createBranch = createCommand("odooDev.createBranch", async (utils)
     throw new Error("Empty input is invalid.");
   }
 
-  const dirtyRepos = await utils.getDirtyRepoNames();
+  const dirtyRepos = await utils.getDirtyRepoNamesBeforeSwitch(input);
   if (
     dirtyRepos.length !== 0 &&
     !(vscode.workspace.getConfiguration("odooDev").autoStash as boolean)
@@ -92,14 +108,15 @@ export const createBranch = createCommand("odooDev.createBranch", async (utils)
 
   const base = inferBaseBranch(input);
 
-  const baseBranches = getBaseBranches();
+  const baseBranches = utils.branchStore.getBaseBranches();
   if (!baseBranches.includes(base)) {
     throw new Error(`Fetch the stable branch '${base}' before creating a dev branch out of it.`);
-  } else if (devBranchExists({ base, name: input })) {
+  } else if (utils.branchStore.devBranchExists({ base, name: input })) {
     throw new Error(`'${input}' already exists!`);
   }
   await utils.createBranches(base, input, dirtyRepos);
-  addDevBranch(base, input);
+  utils.branchStore.addDevBranch(base, input);
+  await utils.branchStore.updateMetadata(input, { createdAt: Date.now() });
   utils.pushBranchHistory(input);
 });
 
@@ -130,10 +147,11 @@ export const findBranch = createCommand("odooDev.findBranch", async (utils) => {
     return;
   }
 
-  const devBranches = getBaseBranches()
+  const devBranches = utils.branchStore
+    .getBaseBranches()
     .map((base) => [
       { base, name: base },
-      ...getDevBranches(base).map((branch) => ({ ...branch, base })),
+      ...utils.branchStore.getDevBranches(base).map((branch) => ({ ...branch, base })),
     ])
     .flat();
 
@@ -146,7 +164,7 @@ export const findBranch = createCommand("odooDev.findBranch", async (utils) => {
     throw new Error("Empty input is invalid.");
   }
 
-  const dirtyRepos = await utils.getDirtyRepoNames();
+  const dirtyRepos = await utils.getDirtyRepoNamesBeforeSwitch(input);
   if (
     dirtyRepos.length !== 0 &&
     !(vscode.workspace.getConfiguration("odooDev").autoStash as boolean)
@@ -167,15 +185,18 @@ export const findBranch = createCommand("odooDev.findBranch", async (utils) => {
   }
 
   const base = inferBaseBranch(branch);
-  const baseBranches = getBaseBranches();
+  const baseBranches = utils.branchStore.getBaseBranches();
   if (base && !baseBranches.includes(base)) {
-    addBaseBranch(base);
-  } else if (devBranchExists({ base, name: branch }) || baseBranches.includes(branch)) {
+    utils.branchStore.addBaseBranch(base);
+  } else if (
+    utils.branchStore.devBranchExists({ base, name: branch }) ||
+    baseBranches.includes(branch)
+  ) {
     await utils.checkoutBranches(branch, dirtyRepos);
     return utils.pushBranchHistory(branch);
   }
   await utils.fetchOrCreateBranches(base, branch, dirtyRepos, forkName, true);
-  addDevBranch(base, branch);
+  utils.branchStore.addDevBranch(base, branch);
   utils.pushBranchHistory(branch);
 });
 
@@ -198,7 +219,7 @@ export const fetchBranch = createCommand("odooDev.fetchBranch", async (utils) =>
     throw new Error("Empty input is invalid.");
   }
 
-  const dirtyRepos = await utils.getDirtyRepoNames();
+  const dirtyRepos = await utils.getDirtyRepoNamesBeforeSwitch(input);
   if (
     dirtyRepos.length !== 0 &&
     !(vscode.workspace.getConfiguration("odooDev").autoStash as boolean)
@@ -219,10 +240,10 @@ export const fetchBranch = createCommand("odooDev.fetchBranch", async (utils) =>
   }
 
   const base = inferBaseBranch(branch);
-  const baseBranches = getBaseBranches();
+  const baseBranches = utils.branchStore.getBaseBranches();
   if (!baseBranches.includes(base)) {
-    addBaseBranch(base);
-  } else if (devBranchExists({ base, name: branch })) {
+    utils.branchStore.addBaseBranch(base);
+  } else if (utils.branchStore.devBranchExists({ base, name: branch })) {
     const response = await vscode.window.showInformationMessage(
       "Branch already exists, checkout?",
       { modal: true },
@@ -234,7 +255,7 @@ export const fetchBranch = createCommand("odooDev.fetchBranch", async (utils) =>
     return utils.pushBranchHistory(branch);
   }
   await utils.fetchBranches(base, branch, dirtyRepos, forkName);
-  addDevBranch(base, branch);
+  utils.branchStore.addDevBranch(base, branch);
   utils.pushBranchHistory(branch);
 });
 
@@ -255,7 +276,7 @@ export const fetchOrCreate = createCommand("odooDev.fetchOrCreate", async (utils
     throw new Error("Empty input is invalid.");
   }
 
-  const dirtyRepos = await utils.getDirtyRepoNames();
+  const dirtyRepos = await utils.getDirtyRepoNamesBeforeSwitch(input);
   if (
     dirtyRepos.length !== 0 &&
     !(vscode.workspace.getConfiguration("odooDev").autoStash as boolean)
@@ -277,11 +298,11 @@ export const fetchOrCreate = createCommand("odooDev.fetchOrCreate", async (utils
 
   const base = inferBaseBranch(branch);
 
-  if (devBranchExists({ base, name: branch })) {
+  if (utils.branchStore.devBranchExists({ base, name: branch })) {
     throw new Error(`'${branch}' already exists!`);
   }
   await utils.fetchOrCreateBranches(base, branch, dirtyRepos, forkName);
-  addDevBranch(base, branch);
+  utils.branchStore.addDevBranch(base, branch);
   utils.pushBranchHistory(branch);
 });
 
@@ -315,9 +336,9 @@ export const fetchStableBranch = createCommand("odooDev.fetchStableBranch", asyn
     );
   }
 
-  const baseBranches = getBaseBranches();
+  const baseBranches = utils.branchStore.getBaseBranches();
   if (!baseBranches.includes(branch)) {
-    addBaseBranch(branch);
+    utils.branchStore.addBaseBranch(branch);
   }
   await utils.fetchStableBranches(branch, dirtyRepos);
   utils.pushBranchHistory(branch);
@@ -328,8 +349,9 @@ export const deleteBranch = createCommand("odooDev.deleteBranch", async (utils,
     return;
   }
 
-  const devBranches = getBaseBranches()
-    .map((base) => getDevBranches(base).map((branch) => ({ ...branch, base })))
+  const devBranches = utils.branchStore
+    .getBaseBranches()
+    .map((base) => utils.branchStore.getDevBranches(base).map((branch) => ({ ...branch, base })))
     .flat();
 
   const selected = item
@@ -347,7 +369,25 @@ export const deleteBranch = createCommand("odooDev.deleteBranch", async (utils,
     return;
   }
 
-  const dirtyRepos = await utils.getDirtyRepos();
+  if (isWorktreeMode()) {
+    const dirtyWorktrees = await utils.getDirtyWorktreeNames(selected.name);
+    if (dirtyWorktrees.length !== 0) {
+      const answer = await vscode.window.showInformationMessage(
+        `Uncommitted changes in the worktrees of: ${dirtyWorktrees.join(
+          ", "
+        )}. The changes will be lost. Continue?`,
+        {
+          modal: true,
+        },
+        "Yes"
+      );
+      if (answer !== "Yes") {
+        return;
+      }
+    }
+  }
+
+  const dirtyRepos = isWorktreeMode() ? [] : await utils.getDirtyRepos();
   if (dirtyRepos.length !== 0) {
     const names = dirtyRepos.map((repo) => repo.state.HEAD?.name).filter(Boolean);
     const answer = await vscode.window.showInformationMessage(
@@ -375,7 +415,7 @@ export const deleteBranch = createCommand("odooDev.deleteBranch", async (utils,
     throw new Error(`Deleting base branch '${base}' is not allowed.`);
   }
   await utils.deleteBranches(base, branch);
-  removeDevBranch(base, branch);
+  await utils.branchStore.removeDevBranch(base, branch);
   utils.removeAndPushBranchHistory(branch, base);
 });
 
@@ -384,10 +424,11 @@ export const checkoutBranch = createCommand("odooDev.checkoutBranch", async (uti
     return;
   }
 
-  const devBranches = getBaseBranches()
+  const devBranches = utils.branchStore
+    .getBaseBranches()
     .map((base) => [
       { base, name: base },
-      ...getDevBranches(base).map((branch) => ({ ...branch, base })),
+      ...utils.branchStore.getDevBranches(base).map((branch) => ({ ...branch, base })),
     ])
     .flat();
 
@@ -406,7 +447,7 @@ export const checkoutBranch = createCommand("odooDev.checkoutBranch", async (uti
     return;
   }
 
-  const dirtyRepos = await utils.getDirtyRepoNames();
+  const dirtyRepos = await utils.getDirtyRepoNamesBeforeSwitch(selected.name);
   if (
     dirtyRepos.length !== 0 &&
     !(vscode.workspace.getConfiguration("odooDev").autoStash as boolean)
@@ -521,11 +562,8 @@ export const startServer = createCommand("odooDev.startServer", async (utils) =>
 
   const commandArgs = await utils.getStartServerArgs();
   const python = await utils.getPythonPath();
-  const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
-  utils.sendStartServerCommand(
-    `${python} ${odooBin} ${commandArgs.join(" ")}`,
-    ODOO_SERVER_TERMINAL
-  );
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, commandArgs, utils.getServerInstanceName());
 });
 
 export const toggleWithDemoData = createCommand("odooDev.toggleWithDemoData", async (utils) => {
@@ -537,40 +575,98 @@ export const debugServer = createCommand("odooDev.debugServer", async (utils) =>
     return;
   }
 
-  const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
   const commandArgs = await utils.getStartServerArgs();
-  const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
-    name: DEBUG_PYTHON_NAME,
-    type: "python",
-    request: "launch",
-    stopOnEntry: false,
-    console: "integratedTerminal",
-    cwd: `${utils.getRepoPath(utils.odevRepos.odoo)}`,
-    python: await utils.getPythonPath(),
-    program: odooBin,
-    variablePresentation: {
-      all: "hide",
-    },
-    args: commandArgs,
-  };
-  await startDebugging(debugOdooPythonLaunchConfig, odooDevOutput);
-  vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", true);
-  utils.odooServerStatus.command = "odooDev.stopActiveServer";
-  utils.odooServerStatus.text = "$(debug-stop) Stop Odoo Server";
+  await utils.debugServer(commandArgs, odooDevOutput);
+});
+
+/**
+ * @returns undefined if cancelled, `null` if "No Profile" is selected
+ */
+async function pickServerProfile(utils: ContextualUtils, options: { allowNone: boolean }) {
+  const profiles = getServerProfiles();
+  if (profiles.length === 0) {
+    const answer = await vscode.window.showInformationMessage(
+      "There are no server profiles, do you want to add one in the settings?",
+      "Open Settings"
+    );
+    if (answer) {
+      await vscode.commands.executeCommand(
+        "workbench.action.openSettings",
+        "odooDev.serverProfiles"
+      );
+    }
+    return undefined;
+  }
+  const active = utils.getActiveServerProfile();
+  const items = profiles.map((profile) => ({
+    label: profile.name,
+    description: profile.name === active?.name ? `${profile.args} (active)` : profile.args,
+    detail: profile.description,
+    profile: profile as ServerProfile | null,
+  }));
+  if (options.allowNone) {
+    items.unshift({
+      label: "No Profile",
+      description: active ? "" : "(active)",
+      detail: undefined,
+      profile: null,
+    });
+  }
+  const selected = await vscode.window.showQuickPick(items, {
+    title: "Server Profiles",
+    placeHolder: "Select a server profile",
+    matchOnDescription: true,
+  });
+  const profile = selected?.profile;
+  if (profile) {
+    const result = Result.try_(splitArgs, profile.args);
+    if (!Result.check(result)) {
+      throw new Error(
+        `The options of the server profile '${profile.name}' are invalid: ${result.error.message}`
+      );
+    }
+  }
+  return profile;
+}
+
+export const selectServerProfile = createCommand("odooDev.selectServerProfile", async (utils) => {
+  const profile = await pickServerProfile(utils, { allowNone: true });
+  if (profile !== undefined) {
+    await utils.setActiveServerProfile(profile?.name);
+  }
 });
 
+export const startServerWithProfile = createCommand(
+  "odooDev.startServerWithProfile",
+  async (utils) => {
+    const profile = await pickServerProfile(utils, { allowNone: false });
+    if (profile) {
+      await utils.setActiveServerProfile(profile.name);
+      await vscode.commands.executeCommand("odooDev.startServer");
+    }
+  }
+);
+
+export const debugServerWithProfile = createCommand(
+  "odooDev.debugServerWithProfile",
+  async (utils) => {
+    const profile = await pickServerProfile(utils, { allowNone: false });
+    if (profile) {
+      await utils.setActiveServerProfile(profile.name);
+      await vscode.commands.executeCommand("odooDev.debugServer");
+    }
+  }
+);
+
 export const startOdooShell = createCommand("odooDev.startOdooShell", async (utils) => {
   const commandArgs = await utils.getOdooShellCommandArgs();
   const python = await utils.getPythonPath();
-  const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
-  utils.sendStartServerCommand(
-    `${python} ${odooBin} ${commandArgs.join(" ")}`,
-    ODOO_SHELL_TERMINAL
-  );
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, commandArgs, ODOO_SHELL_TERMINAL);
 });
 
 export const debugOdooShell = createCommand("odooDev.debugOdooShell", async (utils) => {
-  const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
+  const odooBin = utils.getOdooBinPath();
   const commandArgs = await utils.getOdooShellCommandArgs();
   const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
     name: DEBUG_ODOO_SHELL,
@@ -578,7 +674,7 @@ export const debugOdooShell = createCommand("odooDev.debugOdooShell", async (uti
     request: "launch",
     stopOnEntry: false,
     console: "integratedTerminal",
-    cwd: `${utils.getRepoPath(utils.odevRepos.odoo)}`,
+    cwd: utils.getOdooPath(),
     python: await utils.getPythonPath(),
     program: odooBin,
     variablePresentation: {
@@ -633,13 +729,7 @@ export const startServerWithUpdate = createCommand(
       return;
     }
 
-    const startServerArgs = await utils.getStartServerArgs();
-    const [d, dbname, ...otherArgs] = startServerArgs;
-    const args = [d, dbname, "-u", selectedAddons.join(","), ...otherArgs];
-
-    const python = await utils.getPythonPath();
-    const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
-    utils.sendStartServerCommand(`${python} ${odooBin} ${args.join(" ")}`, ODOO_SERVER_TERMINAL);
+    utils.startServerWithUpdate(selectedAddons);
   }
 );
 
@@ -655,55 +745,59 @@ export const debugServerWithUpdate = createCommand(
       return;
     }
 
-    const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
     const startServerArgs = await utils.getStartServerArgs();
-    const args = [...startServerArgs, "-u", selectedAddons.join(",")];
-
-    const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
-      name: DEBUG_PYTHON_NAME,
-      type: "python",
-      request: "launch",
-      stopOnEntry: false,
-      console: "integratedTerminal",
-      cwd: `${utils.getRepoPath(utils.odevRepos.odoo)}`,
-      python: await utils.getPythonPath(),
-      program: odooBin,
-      variablePresentation: {
-        all: "hide",
-      },
-      args,
-    };
-    await startDebugging(debugOdooPythonLaunchConfig, odooDevOutput);
-    vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", true);
-    utils.odooServerStatus.command = "odooDev.stopActiveServer";
-    utils.odooServerStatus.text = "$(debug-stop) Stop Odoo Server";
+    await utils.debugServer([...startServerArgs, "-u", selectedAddons.join(",")], odooDevOutput);
   }
 );
 
+/**
+ * The commands of the history, from the oldest. The ones that can't be parsed, e.g. saved before
+ * the arguments were quoted, are dropped from the history.
+ */
+async function getCommandHistory(utils: ContextualUtils) {
+  const commands = [];
+  let hasDropped = false;
+  for (const [terminalName, command] of utils.commandHistory.getItems()) {
+    const result = Result.try_(splitArgs, command);
+    if (Result.check(result)) {
+      const [python, odooBin, ...args] = result.value;
+      commands.push({ terminalName, python, odooBin, args });
+    } else {
+      utils.commandHistory.remove(terminalName, command);
+      hasDropped = true;
+    }
+  }
+  if (hasDropped) {
+    await utils.commandHistory.flush();
+  }
+  return commands;
+}
+
 export const previousCommands = createCommand("odooDev.previousCommands", async (utils) => {
-  const items = utils.commandHistory.getItems().map(([terminalName, command]) => {
-    const [python, odooBin, ...args] = command.split(" ");
-    return { label: terminalName, detail: args.join(" "), python, odooBin };
+  const items = (await getCommandHistory(utils)).map((command) => {
+    return { ...command, label: command.terminalName, detail: joinArgs(command.args) };
   });
   items.reverse();
   const selected = await vscode.window.showQuickPick(items, { canPickMany: false });
   if (selected) {
-    const { python, odooBin, detail: args, label: terminalName } = selected;
-    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    const { python, odooBin, args, terminalName } = selected;
+    // The command is run in its own instance, that's the one to stop.
+    const options = { waitForKill: true, name: terminalName };
+    if (!Result.check(await utils.ensureNoRunningServer(options))) {
       return;
     }
-    utils.sendStartServerCommand([python, odooBin, args].join(" "), terminalName);
+    utils.sendStartServerCommand(python, odooBin, args, terminalName);
   }
 });
 
 export const runLastCommand = createCommand("odooDev.runLastCommand", async (utils) => {
-  const lastCommand = utils.commandHistory.top();
+  const lastCommand = (await getCommandHistory(utils)).pop();
   if (lastCommand) {
-    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    const { python, odooBin, args, terminalName: name } = lastCommand;
+    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true, name }))) {
       return;
     }
-    const [terminalName, command] = lastCommand;
-    utils.sendStartServerCommand(command, terminalName);
+    utils.sendStartServerCommand(python, odooBin, args, name);
   } else {
     vscode.window.showInformationMessage("No command to run.");
   }
@@ -714,23 +808,10 @@ export const clearCommandHistory = createCommand("odooDev.clearCommandHistory",
 });
 
 export const runTestMethods = createCommand("odooDev.runTestMethods", async (utils) => {
-  const odooPath = `${utils.getRepoPath(utils.odevRepos.odoo)}/addons`;
-  const customAddonPaths = Object.values(utils.odevRepos.custom).map(
-    (repo) => `${utils.getRepoPath(repo)}`
-  );
-
-  const odooAddons = (await getAddons(odooPath)).map((name) => [name, odooPath] as const);
-  const customAddons = (
-    await Promise.all(
-      customAddonPaths.map(async (path) =>
-        (await getAddons(path)).map((name) => [name, path] as const)
-      )
-    )
-  ).flat();
-
+  await utils.addonsIndex.ready();
   const selectedAddons = await vscode.window.showQuickPick(
-    [...odooAddons, ...customAddons].map(([name, rootUri]) => {
-      return { label: name, rootUri };
+    utils.addonsIndex.getAddons().map((addon) => {
+      return { label: addon.name, addonPath: addon.path };
     }),
     { canPickMany: true, title: "Select modules (to reduce the method selections)" }
   );
@@ -740,31 +821,18 @@ export const runTestMethods = createCommand("odooDev.runTestMethods", async (uti
   }
 
   const allTestMethods = [];
-  for (const { label: addon, rootUri } of selectedAddons) {
-    const pattern = new vscode.RelativePattern(rootUri, `**/${addon}/tests/**/*.py`);
+  for (const { addonPath } of selectedAddons) {
+    const pattern = new vscode.RelativePattern(addonPath, "tests/**/*.py");
     const testFileUris = await vscode.workspace.findFiles(pattern, "**/node_modules/**");
 
     for (const uri of testFileUris) {
-      const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
-        "vscode.executeDocumentSymbolProvider",
-        uri
-      );
-
-      if (!symbols) {
-        continue;
-      }
-
-      const testMethods = symbols
-        .filter((symbol) => symbol.kind === vscode.SymbolKind.Class)
-        .map((s) => {
-          const testMethods = s.children.filter((child) => child.kind === vscode.SymbolKind.Method);
-          return testMethods
-            .filter((m) => m.name.startsWith("test"))
-            .map((method) => ({
-              class: s.name,
-              method: method.name,
-            }));
-        })
+      const testMethods = parseTestFile(fs.readFileSync(uri.fsPath, "utf-8"))
+        .map((testClass) =>
+          testClass.methods.map((method) => ({
+            class: testClass.name,
+            method: method.name,
+          }))
+        )
         .flat();
 
       allTestMethods.push(...testMethods);
@@ -790,34 +858,94 @@ export const runTestMethods = createCommand("odooDev.runTestMethods", async (uti
     testTags: selectedTestMethods.map(({ tag }) => tag),
   });
   const python = await utils.getPythonPath();
-  const odooBin = `${utils.getRepoPath(utils.odevRepos.odoo)}/odoo-bin`;
-  utils.sendStartServerCommand(
-    `${python} ${odooBin} ${commandArgs.join(" ")}`,
-    ODOO_SERVER_TERMINAL
-  );
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, commandArgs, utils.getServerInstanceName());
 });
 
-export const debugJS = createCommand("odooDev.debugJS", async (utils) => {
-  const odooAddonsPath = `${utils.getRepoPath(utils.odevRepos.odoo)}/addons`;
-  const customAddonsPaths = Object.entries(utils.odevRepos.custom).map(([, repo]) => {
-    return utils.getRepoPath(repo);
-  });
+const getLastFailedTestTags = (utils: ContextualUtils) => {
+  const testTags = utils.getLastFailedTestTags();
+  if (testTags.length === 0) {
+    vscode.window.showInformationMessage("No failed test in the last test run.");
+  }
+  return testTags;
+};
 
-  const url = await utils.getServerUrl({ debug: "assets" });
+export const rerunFailedTests = createCommand("odooDev.rerunFailedTests", async (utils) => {
+  const testTags = getLastFailedTestTags(utils);
+  if (testTags.length === 0) {
+    return;
+  }
+  if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
+  }
+  const commandArgs = await utils.getStartServerArgs({ testTags });
+  const python = await utils.getPythonPath();
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, commandArgs, utils.getServerInstanceName());
+});
 
-  const getAddonPairs = async (path: string) => {
-    const addons = await getAddons(path);
-    return addons.map((name) => [name, path]);
-  };
+export const debugFailedTests = createCommand("odooDev.debugFailedTests", async (utils) => {
+  const testTags = getLastFailedTestTags(utils);
+  if (testTags.length === 0) {
+    return;
+  }
+  if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
+  }
+  const odooBin = utils.getOdooBinPath();
+  const python = await utils.getPythonPath();
+  const commandArgs = await utils.getStartServerArgs({ testTags });
+  // So that the same tests can be started again from the command history.
+  utils.commandHistory.push(
+    utils.getServerInstanceName(),
+    joinArgs([python, odooBin, ...commandArgs])
+  );
+  await utils.commandHistory.flush();
+  await utils.debugServer(commandArgs, odooDevOutput);
+});
 
-  const odooAddonPairs = await getAddonPairs(odooAddonsPath);
-  const addonPairs = [
-    ...odooAddonPairs,
-    ...(await Promise.all(customAddonsPaths.map(getAddonPairs))).flat(),
-  ];
+export const runAffectedTests = createCommand("odooDev.runAffectedTests", async (utils) => {
+  await utils.addonsIndex.ready();
+  const changed = (await utils.findChangedAddons()).map((addon) => addon.name);
+  if (changed.length === 0) {
+    vscode.window.showInformationMessage("No addon is changed by the active branch.");
+    return;
+  }
+  const graph = utils.getDependencyGraph();
+  const dependents = changed.flatMap((addon) => graph.getTransitiveDependents(addon));
+  const affected = [...new Set([...changed, ...dependents.map((d) => d.addon)])].sort();
+
+  const detail = `${changed.join(", ")} and ${affected.length - changed.length} dependents`;
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: "Run the Tests", detail, update: false },
+      { label: "Update and Run the Tests", detail: `-u ${changed.join(",")}`, update: true },
+    ],
+    { title: `Run the tests of ${affected.length} affected addons` }
+  );
+  if (!selected) {
+    return;
+  }
+  if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
+  }
+  const testTags = affected.map((addon) => `/${addon}`);
+  const commandArgs = await utils.getStartServerArgs({ testTags });
+  // Updating the changed addons also updates the installed addons that depend on them.
+  const args = selected.update ? [...commandArgs, "-u", changed.join(",")] : commandArgs;
+  const python = await utils.getPythonPath();
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, args, utils.getServerInstanceName());
+});
 
+/**
+ * Opens the url in chrome in a debug session, the sources of the addons are mapped to the files
+ * of the repositories.
+ */
+async function debugInChrome(utils: ContextualUtils, url: string) {
+  await utils.addonsIndex.ready();
   const sourceMapPathOverrides = Object.fromEntries(
-    addonPairs.map(([name, path]) => [`../../..//${name}/*`, `${path}/${name}/*`])
+    utils.addonsIndex.getAddons().map((addon) => [`../../..//${addon.name}/*`, `${addon.path}/*`])
   );
 
   const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
@@ -829,6 +957,88 @@ export const debugJS = createCommand("odooDev.debugJS", async (utils) => {
     sourceMapPathOverrides,
   };
   await startDebugging(debugOdooPythonLaunchConfig, odooDevOutput);
+}
+
+export const debugJS = createCommand("odooDev.debugJS", async (utils) => {
+  const instance = await selectServerInstance(utils, "Select the server to debug");
+  if (instance === undefined) {
+    return;
+  }
+  const url = await utils.getReadyServerUrl(instance, { debug: "assets" });
+  if (url) {
+    await debugInChrome(utils, url);
+  }
+});
+
+/**
+ * Asks the user to select a tour that is run by python tests, the tours of the active file are
+ * listed first.
+ */
+async function selectTour(utils: ContextualUtils, title: string) {
+  await utils.addonsIndex.ready();
+  const findToursWithSpinner = withProgress({
+    message: "Looking for the tours...",
+    cb: () => findTours(utils.addonsIndex.getAddons()),
+  });
+  const tours = (await findToursWithSpinner()).filter((tour) => tour.testTags.length > 0);
+  if (tours.length === 0) {
+    throw new Error("No tour is run by a python test.");
+  }
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+  const rank = (tour: TourInfo) => (tour.file === activeFile ? 0 : 1);
+  const selected = await vscode.window.showQuickPick(
+    [...tours]
+      .sort((a, b) => rank(a) - rank(b))
+      .map((tour) => ({
+        label: tour.name,
+        description: tour.addon,
+        detail: tour.testTags.join(", "),
+        tour,
+      })),
+    { title, matchOnDescription: true }
+  );
+  return selected?.tour;
+}
+
+export const runTourTest = createCommand("odooDev.runTourTest", async (utils) => {
+  const tour = await selectTour(utils, "Select the tour to run");
+  if (!tour || !Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
+  }
+  const commandArgs = await utils.getStartServerArgs({ testTags: tour.testTags });
+  const python = await utils.getPythonPath();
+  const odooBin = utils.getOdooBinPath();
+  utils.sendStartServerCommand(python, odooBin, commandArgs, utils.getServerInstanceName());
+});
+
+/**
+ * The tests are not run: a server is started on their database and the page of the tour is opened
+ * in chrome, where the user runs the tour, e.g. with `odoo.startTour("name")`.
+ */
+export const debugTour = createCommand("odooDev.debugTour", async (utils) => {
+  const tour = await selectTour(utils, "Select the tour to debug");
+  if (!tour || !Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
+  }
+  const dbName = await utils.getDBName();
+  if (!dbName) {
+    throw new Error("Unable to determine the database of the tests.");
+  }
+  const commandArgs = await utils.getStartServerArgs({ dbName });
+  const python = await utils.getPythonPath();
+  const odooBin = utils.getOdooBinPath();
+  const name = utils.getServerInstanceName();
+  await utils.sendStartServerCommand(python, odooBin, commandArgs, name);
+  const instance = utils.serverInstances.get(name);
+  if (!instance) {
+    return;
+  }
+  const serverUrl = await utils.getReadyServerUrl(instance);
+  if (serverUrl) {
+    const url = new URL(tour.url || "/", serverUrl);
+    url.searchParams.set("debug", "assets");
+    await debugInChrome(utils, url.toString());
+  }
 });
 
 export const dropActiveDB = createCommand("odooDev.dropActiveDB", async (utils) => {
@@ -837,12 +1047,223 @@ export const dropActiveDB = createCommand("odooDev.dropActiveDB", async (utils)
   }
   const dbName = await utils.getDBName();
   if (dbName) {
-    const terminal = utils.getOdooDevTerminal(ODOO_SERVER_TERMINAL);
-    terminal.show();
-    terminal.sendText(`dropdb ${dbName}`);
+    // The terminal of the server doesn't run a shell.
+    await dropDatabase(dbName);
+    utils.odooDatabasesTreeProvider.refresh();
+  }
+});
+
+/**
+ * Returns the name of the database of the given tree item, otherwise, asks the user to choose one.
+ */
+async function selectDatabase(item: OdooDatabase | undefined, title: string) {
+  if (item) {
+    return item.name;
+  }
+  const databases = await listDatabases();
+  if (databases.length === 0) {
+    throw new Error("No database found.");
+  }
+  return vscode.window.showQuickPick(databases, { title });
+}
+
+async function inputNewDatabaseName(prompt: string, value?: string) {
+  const name = await vscode.window.showInputBox({ prompt, value });
+  if (name === undefined) {
+    return;
+  }
+  if (name === "") {
+    throw new Error("Empty input is invalid.");
+  }
+  if (name.length > 63) {
+    throw new Error("Database name should not be longer than 63 characters.");
+  }
+  if (await databaseExists(name)) {
+    throw new Error(`Database '${name}' already exists.`);
+  }
+  return name;
+}
+
+export const refreshDatabases = createCommand("odooDev.refreshDatabases", async (utils) => {
+  utils.odooDatabasesTreeProvider.refresh();
+});
+
+export const createDB = createCommand("odooDev.createDB", async (utils) => {
+  const name = await inputNewDatabaseName("Name of the new database");
+  if (!name) {
+    return;
+  }
+  await createDatabase(name);
+  utils.odooDatabasesTreeProvider.refresh();
+});
+
+export const duplicateDB = createCommand<void, OdooDatabase>(
+  "odooDev.duplicateDB",
+  async (utils, item) => {
+    const source = await selectDatabase(item, "Select the database to duplicate");
+    if (!source) {
+      return;
+    }
+    const target = await inputNewDatabaseName(`Duplicate '${source}' as`, `${source}-copy`);
+    if (!target) {
+      return;
+    }
+    // A database can't be used as template while there are connections to it.
+    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+      return;
+    }
+    const dataDir = await utils.getDataDir();
+    const duplicate = withProgress({
+      message: `Duplicating '${source}' to '${target}'...`,
+      cb: async () => {
+        await duplicateDatabase(source, target);
+        await filestore.copy(dataDir, source, target);
+      },
+    });
+    await duplicate();
+    utils.odooDatabasesTreeProvider.refresh();
+  }
+);
+
+export const dropDB = createCommand<void, OdooDatabase>("odooDev.dropDB", async (utils, item) => {
+  const name = await selectDatabase(item, "Select the database to drop");
+  if (!name) {
+    return;
+  }
+  const response = await vscode.window.showWarningMessage(
+    `Are you sure you want to drop '${name}' and its filestore?`,
+    { modal: true },
+    "Drop"
+  );
+  if (response !== "Drop") {
+    return;
+  }
+  if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+    return;
   }
+  const dataDir = await utils.getDataDir();
+  await dropDatabase(name);
+  await filestore.remove(dataDir, name);
+  utils.odooDatabasesTreeProvider.refresh();
+});
+
+export const renameDB = createCommand<void, OdooDatabase>(
+  "odooDev.renameDB",
+  async (utils, item) => {
+    const name = await selectDatabase(item, "Select the database to rename");
+    if (!name) {
+      return;
+    }
+    const newName = await inputNewDatabaseName(`Rename '${name}' to`, name);
+    if (!newName) {
+      return;
+    }
+    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+      return;
+    }
+    const dataDir = await utils.getDataDir();
+    await renameDatabase(name, newName);
+    await filestore.rename(dataDir, name, newName);
+    utils.odooDatabasesTreeProvider.refresh();
+  }
+);
+
+export const dumpDB = createCommand<void, OdooDatabase>("odooDev.dumpDB", async (utils, item) => {
+  const name = await selectDatabase(item, "Select the database to dump");
+  if (!name) {
+    return;
+  }
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(`${os.homedir()}/${name}.dump`),
+    filters: { "Postgres dump": ["dump"] },
+    saveLabel: "Dump",
+  });
+  if (!uri) {
+    return;
+  }
+  const dump = withProgress({
+    message: `Dumping '${name}'...`,
+    cb: () => dumpDatabase(name, uri.fsPath),
+  });
+  await dump();
+  vscode.window.showInformationMessage(`'${name}' is dumped to '${uri.fsPath}'.`);
 });
 
+export const restoreDB = createCommand("odooDev.restoreDB", async (utils) => {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: false,
+    filters: { "Postgres dump": ["dump", "sql"] },
+    openLabel: "Restore",
+  });
+  if (!uris) {
+    return;
+  }
+  const [uri] = uris;
+  const name = await inputNewDatabaseName(
+    "Name of the restored database",
+    path.basename(uri.fsPath, path.extname(uri.fsPath))
+  );
+  if (!name) {
+    return;
+  }
+  const restore = withProgress({
+    message: `Restoring '${name}'...`,
+    cb: () => restoreDatabase(name, uri.fsPath),
+  });
+  try {
+    await restore();
+  } finally {
+    utils.odooDatabasesTreeProvider.refresh();
+  }
+});
+
+export const startServerOnDB = createCommand<void, OdooDatabase>(
+  "odooDev.startServerOnDB",
+  async (utils, item) => {
+    const dbName = await selectDatabase(item, "Select the database to start the server on");
+    if (!dbName) {
+      return;
+    }
+    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+      return;
+    }
+    const commandArgs = await utils.getStartServerArgs({ dbName });
+    const python = await utils.getPythonPath();
+    const odooBin = utils.getOdooBinPath();
+    utils.sendStartServerCommand(python, odooBin, commandArgs, utils.getServerInstanceName());
+  }
+);
+
+export const restoreDBSnapshot = createCommand<void, DBSnapshot>(
+  "odooDev.restoreDBSnapshot",
+  async (utils, item) => {
+    const branch = await utils.getActiveBranch();
+    let snapshot = item;
+    if (!snapshot) {
+      const snapshots = utils.dbSnapshots.get(branch);
+      if (snapshots.length === 0) {
+        throw new Error(`There is no database snapshot for '${branch}'.`);
+      }
+      const selected = await vscode.window.showQuickPick(
+        [...snapshots].reverse().map((s) => ({
+          label: s.name,
+          description: new Date(s.createdAt).toLocaleString(),
+          detail: `Restores '${s.source}'`,
+          snapshot: s,
+        })),
+        { title: `Select the snapshot of '${branch}' to restore` }
+      );
+      if (!selected) {
+        return;
+      }
+      snapshot = selected.snapshot;
+    }
+    await utils.restoreSnapshot(branch, snapshot);
+  }
+);
+
 export const getTestTag = createCommand("odooDev.getTestTag", async ({ getTestTag }) => {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
@@ -854,34 +1275,15 @@ export const getTestTag = createCommand("odooDev.getTestTag", async ({ getTestTa
 
 export const openChromeLocalServer = createCommand(
   "odooDev.openChromeLocalServer",
-  async ({ getServerUrl }) => {
-    // TODO: check if there is an active server
-    const url = await getServerUrl();
-    switch (process.platform) {
-      case "darwin": {
-        const chromePath = await runShellCommand(
-          `mdfind 'kMDItemCFBundleIdentifier == "com.google.Chrome"'`
-        );
-        const chrome = chromePath.trim();
-        if (chrome === "") {
-          vscode.env.openExternal(vscode.Uri.parse(url));
-        } else {
-          await runShellCommand(`open -a "${chrome}" ${url}`);
-        }
-        break;
-      }
-      case "linux": {
-        try {
-          await runShellCommand(`which google-chrome`);
-          await runShellCommand(`google-chrome ${url}`);
-        } catch (error) {
-          vscode.env.openExternal(vscode.Uri.parse(url));
-        }
-        break;
-      }
-      default: {
-        throw new Error(`Unsupported platform: ${process.platform}`);
-      }
+  async (utils) => {
+    // Without a running server, the server of the config should be started outside of vscode.
+    const instance = await selectServerInstance(utils, "Select the server to open");
+    if (instance === undefined) {
+      return;
+    }
+    const url = await utils.getReadyServerUrl(instance);
+    if (url) {
+      await openInBrowser(url);
     }
   }
 );
@@ -894,6 +1296,72 @@ export const openOdooConf = createCommand("odooDev.openOdooConf", async ({ getCo
   }
 });
 
+export const editConfigOverrides = createCommand(
+  "odooDev.editConfigOverrides",
+  async (utils, item) => {
+    const branch = item ? item.name : await utils.getActiveBranch();
+    if (!branch) {
+      throw new Error(`There is no selected branch.`);
+    }
+
+    // The overrides of a base branch apply to its dev branches.
+    let target = branch;
+    const base = getBase(branch);
+    if (base && base !== branch) {
+      const selected = await vscode.window.showQuickPick(
+        [
+          { label: branch, description: "Only this branch" },
+          { label: base, description: `All the branches based on ${base}` },
+        ],
+        { title: "Config Overrides", placeHolder: "Select the branch to override the config of" }
+      );
+      if (!selected) {
+        return;
+      }
+      target = selected.label;
+    }
+
+    while (true) {
+      const own = utils.configOverrides.get(target);
+      const merged = utils.getConfigOverrides(target);
+      const fileOptions = utils.getConfigFileOptions();
+      const items = CONFIG_OPTIONS.map(({ key, flag }) => {
+        let description: string;
+        if (own[key] !== undefined) {
+          description = `${own[key]} (overridden)`;
+        } else if (merged[key] !== undefined) {
+          description = `${merged[key]} (from ${base})`;
+        } else if (fileOptions[key] !== undefined) {
+          description = `${fileOptions[key]} (from the config file)`;
+        } else {
+          description = "(not set)";
+        }
+        return { label: key, description, detail: flag, key };
+      });
+      const selected = await vscode.window.showQuickPick(items, {
+        title: `Config Overrides: ${target}`,
+        placeHolder: "Select an option to override",
+      });
+      if (!selected) {
+        return;
+      }
+      const value = await vscode.window.showInputBox({
+        title: `Config Overrides: ${target}`,
+        prompt: `Value of ${selected.key}, leave empty to remove the override.`,
+        value: own[selected.key] || "",
+      });
+      if (value === undefined) {
+        continue;
+      }
+      utils.configOverrides.set(target, selected.key, value.trim() || undefined);
+      await utils.configOverrides.flush();
+      if (selected.key === "addons_path") {
+        utils.addonsIndex.load();
+      }
+    }
+  }
+);
+
 export const openLinkedNote = createCommand("odooDev.openLinkedNote", async (utils, item) => {
   const branch = item ? item.name : await utils.getActiveBranch();
   if (!branch) {
@@ -936,11 +1404,107 @@ export const openLinkedNote = createCommand("odooDev.openLinkedNote", async (uti
 export const stopActiveServer = createCommand("odooDev.stopActiveServer", async (utils) => {
   await utils.ensureNoActiveServer({ shouldConfirm: false });
   await utils.ensureNoDebugSession(false);
-  vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", false);
-  utils.odooServerStatus.command = "odooDev.startServer";
-  utils.odooServerStatus.text = "$(debug-start) Start Odoo Server";
 });
 
+/**
+ * Asks the user to choose among the running server instances, there is no prompt if there is only
+ * one.
+ * @returns undefined if cancelled, `null` if there is no running instance
+ */
+async function selectServerInstance(utils: ContextualUtils, title: string) {
+  const instances = utils.serverInstances.getAll();
+  if (instances.length <= 1) {
+    return instances[0] || null;
+  }
+  const selected = await vscode.window.showQuickPick(
+    instances.map((instance) => ({
+      label: instance.name,
+      description: `port ${instance.port}${instance.debug ? ", debugging" : ""}`,
+      instance,
+    })),
+    { title }
+  );
+  return selected?.instance;
+}
+
+export const stopServerInstance = createCommand<void, string>(
+  "odooDev.stopServerInstance",
+  async (utils, name) => {
+    if (!name) {
+      const instance = await selectServerInstance(utils, "Select the server to stop");
+      if (!instance) {
+        return;
+      }
+      name = instance.name;
+    }
+    await utils.stopServerInstance(name);
+  }
+);
+
+export const manageServerInstance = createCommand<void, string>(
+  "odooDev.manageServerInstance",
+  async (utils, name) => {
+    const instance = name
+      ? utils.serverInstances.get(name)
+      : await selectServerInstance(utils, "Select a server");
+    if (!instance) {
+      return;
+    }
+    const actions = [
+      { label: "$(globe) Open in Browser", action: "open" },
+      { label: "$(terminal) Show Terminal", action: "terminal" },
+      { label: "$(output) Show Log", action: "log" },
+      { label: "$(debug-stop) Stop", action: "stop" },
+    ].filter(({ action }) => !(action === "terminal" && instance.debug));
+    const selected = await vscode.window.showQuickPick(actions, {
+      title: `${instance.name} (port ${instance.port})`,
+    });
+    if (selected?.action === "open") {
+      const url = await utils.getReadyServerUrl(instance);
+      if (url) {
+        await openInBrowser(url);
+      }
+    } else if (selected?.action === "terminal") {
+      vscode.window.terminals.find((terminal) => terminal.name === instance.name)?.show();
+    } else if (selected?.action === "log") {
+      await vscode.commands.executeCommand("odooDev.showServerLog", instance.name);
+    } else if (selected?.action === "stop") {
+      await utils.stopServerInstance(instance.name);
+    }
+  }
+);
+
+export const showServerLog = createCommand<void, string>(
+  "odooDev.showServerLog",
+  async (utils, name) => {
+    const names = [...utils.serverLogs.keys()];
+    if (names.length === 0) {
+      throw new Error("There is no server log yet, start a server first.");
+    }
+    if (!name) {
+      name =
+        names.length === 1
+          ? names[0]
+          : await vscode.window.showQuickPick(names, { title: "Select the server log to show" });
+    }
+    const log = name && utils.serverLogs.get(name);
+    if (!name || !log) {
+      return;
+    }
+    ServerLogPanel.show(name, log, async (file, line) => {
+      if (!fileExists(file)) {
+        vscode.window.showErrorMessage(`${file} doesn't exist.`);
+        return;
+      }
+      const position = new vscode.Position(line - 1, 0);
+      await vscode.window.showTextDocument(vscode.Uri.file(file), {
+        selection: new vscode.Range(position, position),
+        viewColumn: vscode.ViewColumn.Beside,
+      });
+    });
+  }
+);
+
 export const openPullRequestLink = createCommand(
   "odooDev.openPullRequestLinkOdoo",
   async (utils, item) => {
@@ -962,6 +1526,7 @@ export const openPullRequestLink = createCommand(
     if (!pr) {
       throw new Error(`There is no pull request (odoo) from the branch '${branch}'.`);
     }
+    await utils.branchStore.addPullRequest(branch, pr.html_url);
     vscode.env.openExternal(vscode.Uri.parse(pr.html_url));
   }
 );
@@ -993,6 +1558,7 @@ export const openPullRequestLinkEnterprise = createCommand(
     if (!pr) {
       throw new Error(`There is no pull request (enterprise) from the branch '${branch}'.`);
     }
+    await utils.branchStore.addPullRequest(branch, pr.html_url);
     vscode.env.openExternal(vscode.Uri.parse(pr.html_url));
   }
 );
@@ -1024,6 +1590,7 @@ export const openPullRequestLinkUpgrade = createCommand(
     if (!pr) {
       throw new Error(`There is no pull request (upgrade) from the branch '${branch}'.`);
     }
+    await utils.branchStore.addPullRequest(branch, pr.html_url);
     vscode.env.openExternal(vscode.Uri.parse(pr.html_url));
   }
 );
@@ -1037,8 +1604,21 @@ export const openRunbotLink = createCommand("odooDev.openRunbotLink", async (uti
   vscode.env.openExternal(vscode.Uri.parse(url));
 });
 
+function openManifest(
+  utils: ContextualUtils,
+  addon: string,
+  options?: vscode.TextDocumentShowOptions
+) {
+  const addonPath = utils.addonsIndex.getPath(addon);
+  if (!addonPath) {
+    throw new Error(`Addon '${addon}' is not found.`);
+  }
+  return vscode.window.showTextDocument(vscode.Uri.file(`${addonPath}/__manifest__.py`), options);
+}
+
 export const isDependentOn = createCommand("odooDev.isDependentOn", async (utils) => {
-  const addon = await vscode.window.showQuickPick(Object.keys(utils.addonsPathMap), {
+  await utils.addonsIndex.ready();
+  const addon = await vscode.window.showQuickPick(utils.addonsIndex.getNames(), {
     title: "Select dependent addon",
     placeHolder: "e.g. point_of_sale",
   });
@@ -1047,7 +1627,7 @@ export const isDependentOn = createCommand("odooDev.isDependentOn", async (utils
     return;
   }
 
-  const requirement = await vscode.window.showQuickPick(Object.keys(utils.addonsPathMap), {
+  const requirement = await vscode.window.showQuickPick(utils.addonsIndex.getNames(), {
     title: "Select requirement",
     placeHolder: "e.g. account",
   });
@@ -1056,14 +1636,158 @@ export const isDependentOn = createCommand("odooDev.isDependentOn", async (utils
     return;
   }
 
-  const isDependent = utils.isDependentOn(addon, requirement);
-  if (isDependent) {
-    vscode.window.showInformationMessage(`${addon} is dependent on ${requirement}`);
-  } else {
+  const { paths, cycles } = utils.findDependencyPaths(addon, requirement);
+  for (const cycle of cycles) {
+    vscode.window.showWarningMessage(`Dependency cycle found: ${cycle.join(" → ")}`);
+  }
+  if (paths.length === 0) {
     vscode.window.showErrorMessage(`${addon} is not dependent on ${requirement}`);
+    return;
   }
+
+  const selected = await vscode.window.showQuickPick(
+    paths.map((path) => ({
+      label: path.join(" → "),
+      description: `${path.length - 1} ${path.length === 2 ? "step" : "steps"}`,
+      path,
+    })),
+    {
+      title: `${addon} is dependent on ${requirement}, select a path to open its manifests`,
+      matchOnDescription: true,
+    }
+  );
+  if (!selected) {
+    return;
+  }
+  for (const name of selected.path) {
+    await openManifest(utils, name, { preview: false });
+  }
+});
+
+async function selectAddon(utils: ContextualUtils, item: OdooAddon | undefined, title: string) {
+  if (item && item.contextValue === "addon") {
+    return item.name;
+  }
+  await utils.addonsIndex.ready();
+  return vscode.window.showQuickPick(utils.addonsIndex.getNames(), {
+    title,
+    placeHolder: "e.g. point_of_sale",
+  });
+}
+
+export const reindexAddons = createCommand("odooDev.reindexAddons", async (utils) => {
+  const reindex = withProgress({
+    message: "Indexing the addons...",
+    cb: () => utils.addonsIndex.rebuild(),
+  });
+  await reindex();
 });
 
+export const showReverseDependencies = createCommand(
+  "odooDev.showReverseDependencies",
+  async (utils) => {
+    utils.odooAddonsTreeProvider.setMode("dependents");
+    vscode.commands.executeCommand("setContext", "odooDev.addonsTreeMode", "dependents");
+  }
+);
+
+export const showDependencies = createCommand("odooDev.showDependencies", async (utils) => {
+  utils.odooAddonsTreeProvider.setMode("dependencies");
+  vscode.commands.executeCommand("setContext", "odooDev.addonsTreeMode", "dependencies");
+});
+
+export const listDependents = createCommand<void, OdooAddon>(
+  "odooDev.listDependents",
+  async (utils, item) => {
+    const addon = await selectAddon(utils, item, "Select the addon to list the dependents of");
+    if (!addon) {
+      return;
+    }
+    const dependents = utils.getDependencyGraph().getTransitiveDependents(addon);
+    if (dependents.length === 0) {
+      vscode.window.showInformationMessage(`No addon depends on '${addon}'.`);
+      return;
+    }
+    const items: (vscode.QuickPickItem & { addon?: string })[] = [];
+    let previousDepth = 0;
+    for (const { addon: dependent, depth } of dependents) {
+      if (depth !== previousDepth) {
+        const label = depth === 1 ? "Direct dependents" : `Depth ${depth}`;
+        items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+        previousDepth = depth;
+      }
+      items.push({
+        label: dependent,
+        description: `depth ${depth}`,
+        detail: utils.addonsIndex.getPath(dependent),
+        addon: dependent,
+      });
+    }
+    const selected = await vscode.window.showQuickPick(items, {
+      title: `${dependents.length} addons depend on '${addon}'`,
+      matchOnDescription: true,
+    });
+    if (!selected || !selected.addon) {
+      return;
+    }
+    await openManifest(utils, selected.addon);
+  }
+);
+
+export const showDependencyGraph = createCommand<void, OdooAddon>(
+  "odooDev.showDependencyGraph",
+  async (utils, item) => {
+    let selected: string[] | undefined;
+    if (item && item.contextValue === "addon") {
+      selected = [item.name];
+    } else {
+      await utils.addonsIndex.ready();
+      selected = await vscode.window.showQuickPick(utils.addonsIndex.getNames(), {
+        title: "Select the addons to show the dependencies of",
+        canPickMany: true,
+      });
+    }
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    const graph = utils.getDependencyGraph();
+    const addons = graph.getTransitiveDependencies(selected);
+    const repos = Object.fromEntries(
+      addons.map((addon) => [addon, utils.addonsIndex.get(addon)?.repo || ""])
+    );
+    const repoNames = [...new Set(utils.getAddonsRoots().map((root) => root.repo))].filter((name) =>
+      Object.values(repos).includes(name)
+    );
+    DependencyGraphPanel.show(
+      `Dependencies of ${selected.join(", ")}`,
+      layoutDependencyGraph(graph, addons),
+      repos,
+      repoNames,
+      (addon) => {
+        if (utils.addonsIndex.getPath(addon)) {
+          openManifest(utils, addon, { viewColumn: vscode.ViewColumn.Beside });
+        }
+      }
+    );
+  }
+);
+
+export const startServerWithUpdateDependents = createCommand<void, OdooAddon>(
+  "odooDev.startServerWithUpdateDependents",
+  async (utils, item) => {
+    const addon = await selectAddon(utils, item, "Select the addon to update with its dependents");
+    if (!addon) {
+      return;
+    }
+    if (!Result.check(await utils.ensureNoRunningServer({ waitForKill: true }))) {
+      return;
+    }
+    const dependents = utils.getDependencyGraph().getTransitiveDependents(addon);
+    // The server ignores the addons that are not installed.
+    utils.startServerWithUpdate([addon, ...dependents.map((d) => d.addon)]);
+  }
+);
+
 export const copyBranchName = createCommand("odooDev.copyBranchName", async (utils, item) => {
   const branch = item ? item.name : await utils.getActiveBranch();
   if (!branch) {
@@ -1110,33 +1834,19 @@ export const gotoTestMethod = createCommand("odooDev.gotoTestMethod", async (uti
     const testFileUris = await vscode.workspace.findFiles(pattern, "**/node_modules/**");
     for (const uri of testFileUris) {
       const filePath = uri.fsPath;
-      const fileContent = fs.readFileSync(filePath, "utf-8");
-      const testClassRegex = /class\s+(\w+)\(.*\):/g;
-      const testMethodRegex = /\s+def\s+(test_\w+)\(\w+\):\n/g;
-      const testClassMatches = [...fileContent.matchAll(testClassRegex)];
-      if (testClassMatches.length > 0) {
-        const matchPairs = zip(testClassMatches, testClassMatches.slice(1));
-        for (const [classMatch1, classMatch2] of matchPairs) {
-          const [matchedString, className] = classMatch1;
-          if (classToFind && className !== classToFind) {
-            continue;
-          }
-          const classBodyStart = classMatch1.index! + matchedString.length;
-          const classBodyEnd = classMatch2 ? classMatch2.index! : fileContent.length;
-          const classBody = fileContent.slice(classBodyStart, classBodyEnd);
-          const testMethods = classBody.matchAll(testMethodRegex);
-          for (const testMethodMatch of testMethods) {
-            const [matchedString, testMethodName] = testMethodMatch;
-            const methodNameIndex = matchedString.indexOf(testMethodName);
-            if (testMethodName === methodToFind) {
-              const methodIndex = classBodyStart + testMethodMatch.index! + methodNameIndex;
-              potentialResults.push({
-                path: filePath,
-                index: methodIndex,
-                name: `${className}.${testMethodName}`,
-                repoName,
-              });
-            }
+      const testClasses = parseTestFile(fs.readFileSync(filePath, "utf-8"));
+      for (const testClass of testClasses) {
+        if (classToFind && testClass.name !== classToFind) {
+          continue;
+        }
+        for (const testMethod of testClass.methods) {
+          if (testMethod.name === methodToFind) {
+            potentialResults.push({
+              path: filePath,
+              index: testMethod.index,
+              name: `${testClass.name}.${testMethod.name}`,
+              repoName,
+            });
           }
         }
       }
@@ -1180,6 +1890,33 @@ export const gotoTestMethod = createCommand("odooDev.gotoTestMethod", async (uti
   }
 });
 
+export const refreshBranches = createCommand("odooDev.refreshBranches", async (utils) => {
+  await utils.branchStore.scan();
+  utils.treeDataProvider.refresh();
+});
+
+export const addWorktreeSetToWorkspace = createCommand(
+  "odooDev.addWorktreeSetToWorkspace",
+  async (utils) => {
+    const branch = utils.getActiveWorktree();
+    if (!branch) {
+      throw new Error("There is no active worktree set.");
+    }
+    const workspaceFolders = vscode.workspace.workspaceFolders || [];
+    const foldersToAdd = utils
+      .getNamedRepos()
+      .map(([name]) => ({ name: `${name} (${branch})`, path: getWorktreePath(branch, name) }))
+      .filter(({ path }) => isValidDirectory(path))
+      .filter(({ path }) => !workspaceFolders.some((f) => f.uri.fsPath === path))
+      .map(({ name, path }) => ({ name, uri: vscode.Uri.file(path) }));
+    if (foldersToAdd.length === 0) {
+      vscode.window.showInformationMessage(`The worktrees of '${branch}' are already added.`);
+      return;
+    }
+    vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, ...foldersToAdd);
+  }
+);
+
 export const push = createCommand("odooDev.push", async (utils) => {
   return utils.push(false);
 });
@@ -1270,7 +2007,7 @@ export const deleteMerged = createCommand("odooDev.deleteMerged", async (utils)
         const base = getBase(branch);
         if (base) {
           await utils.deleteBranches(base, branch, false);
-          removeDevBranch(base, branch);
+          await utils.branchStore.removeDevBranch(base, branch);
         }
       }
     },
@@ -0,0 +1,76 @@
+import { ExtensionContext } from "vscode";
+
+/**
+ * Options of the odoo config that can be overridden per branch, with their command line flag.
+ */
+export const CONFIG_OPTIONS = [
+  { key: "db_name", flag: "--database" },
+  { key: "http_port", flag: "--http-port" },
+  { key: "addons_path", flag: "--addons-path" },
+  { key: "log_level", flag: "--log-level" },
+  { key: "workers", flag: "--workers" },
+  { key: "dev_mode", flag: "--dev" },
+  { key: "limit_time_real", flag: "--limit-time-real" },
+] as const;
+
+export type ConfigOption = (typeof CONFIG_OPTIONS)[number]["key"];
+
+export type ConfigOverrides = Partial<Record<ConfigOption, string>>;
+
+/**
+ * Overrides of the base branch, replaced by the ones of the dev branch.
+ */
+export const mergeOverrides = (base: ConfigOverrides, branch: ConfigOverrides): ConfigOverrides => {
+  return { ...base, ...branch };
+};
+
+/**
+ * Command line flags of the overrides, in the order of `CONFIG_OPTIONS`.
+ * @param exclude options that are passed by the caller
+ */
+export const toArgs = (overrides: ConfigOverrides, exclude: ConfigOption[] = []) => {
+  const args: string[] = [];
+  for (const { key, flag } of CONFIG_OPTIONS) {
+    const value = overrides[key];
+    if (value !== undefined && !exclude.includes(key)) {
+      args.push(flag, value);
+    }
+  }
+  return args;
+};
+
+/**
+ * Keeps the config overrides of the branches, base branches (e.g. `16.0`) included.
+ * The values of the config file are used for the options that are not overridden.
+ */
+export const init = (globalState: ExtensionContext["globalState"]) => {
+  const overrides: Record<string, ConfigOverrides> =
+    globalState.get<Record<string, ConfigOverrides>>("odooDev.configOverrides") || {};
+
+  const get = (branch: string): ConfigOverrides => {
+    return overrides[branch] || {};
+  };
+
+  /**
+   * @param value the override is removed when undefined
+   */
+  const set = (branch: string, key: ConfigOption, value: string | undefined) => {
+    const { [key]: _previous, ...others } = get(branch);
+    const updated: ConfigOverrides = value === undefined ? others : { ...others, [key]: value };
+    if (Object.keys(updated).length === 0) {
+      delete overrides[branch];
+    } else {
+      overrides[branch] = updated;
+    }
+  };
+
+  const flush = () => {
+    return globalState.update("odooDev.configOverrides", overrides);
+  };
+
+  return {
+    get,
+    set,
+    flush,
+  };
+};
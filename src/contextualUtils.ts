@@ -1,45 +1,91 @@
 import * as vscode from "vscode";
 import * as os from "os";
 import * as fs from "fs";
+import * as path from "path";
 import * as ini from "ini";
 import * as Result from "./Result";
 import { Branch, Remote, Repository } from "./dependencies/git";
 import { OdooDevBranches } from "./odoo_dev_branch";
 import {
   findRemote,
-  getChildProcs,
   inferBaseBranch,
-  isOdooServer,
-  killOdooServer,
   tryRunShellCommand,
   runShellCommand,
-  getAddons,
   getRemoteOfBase,
   getBase,
   OdooDevRepositories,
   isBase,
-  getRequirements,
   getWithDemoDataStatusText,
   debounce,
   startDebugging,
+  isValidDirectory,
+  fileExists,
+  getServerProfiles,
+  getServerProfileStatusText,
+  splitArgs,
+  joinArgs,
+  openInBrowser,
 } from "./helpers";
 import { assert } from "console";
 import {
   BASE_BRANCH_REGEX,
   DEBUG_JS_NAME,
-  DEBUG_PYTHON_NAME,
   DEV_BRANCH_REGEX,
   FETCH_URL_REGEX,
   ODOO_SERVER_TERMINAL,
 } from "./constants";
 import { OdooAddonsTree } from "./odoo_addons";
-import { getBaseBranches, getDebugSessions, getDevBranches } from "./state";
-import { withProgress } from "./decorators";
+import { AddonsIndex, AddonsRoot } from "./addons-index";
+import { findAddonsFolders, parseAddonsPath, sortCustomRepos } from "./addons-paths";
+import { OdooDatabasesTree } from "./odoo_databases";
+import {
+  databaseExists,
+  dropDatabase,
+  duplicateDatabase,
+  filestore,
+  getDefaultDataDir,
+} from "./databases";
+import { BranchStore, getDebugSessions } from "./state";
+import { withCancellableProgress, withProgress } from "./decorators";
 import { init } from "./branch-history";
 import * as StartServerCommandHistory from "./start-server-command-history";
+import * as DBSnapshots from "./db-snapshots";
+import * as ConfigOverrides from "./config-overrides";
+import {
+  ServerInstance,
+  ServerInstances,
+  findFreePort,
+  getPortFromArgs,
+  isPortOpen,
+} from "./server-instances";
+import { ServerProcess } from "./server-process";
+import { ServerLog } from "./server-log";
+import { LoadingError, LoadingErrorParser } from "./loading-errors";
+import { ChangedAddon, FileDiffStat, getChangedAddons, parseNumstat } from "./changed-addons";
+import { ServerLogPanel } from "./odoo_log_panel";
+import {
+  TestLogParser,
+  TestResult,
+  getFailedTestTags,
+  getTestAt,
+  parseTestFile,
+  summarizeTestResults,
+} from "./test-parser";
+import {
+  WorktreeRef,
+  addWorktree,
+  getWorktreePath,
+  getWorktreeSetPath,
+  hasWorktreeSet,
+  isWorktreeClean,
+  isWorktreeMode,
+  removeWorktree,
+} from "./worktrees";
 
 export type ContextualUtils = ReturnType<typeof createContextualUtils>;
 
+const TEST_ARG_REGEX = /^--test-(enable|tags|file)\b/;
+
 async function taggedCall<L, T>(tag: L, cb: () => Promise<T>): Promise<{ tag: L; result: T }> {
   const result = await cb();
   return { tag, result };
@@ -57,8 +103,8 @@ export function createContextualUtils(
   context: vscode.ExtensionContext,
   options: {
     withDemoDataStatus: vscode.StatusBarItem;
+    serverProfileStatus: vscode.StatusBarItem;
     odooServerStatus: vscode.StatusBarItem;
-    addonsPathMap: Record<string, string>;
     getPythonPath: () => Promise<string>;
     getRepoPath: (repo: Repository) => string;
     odevRepos: OdooDevRepositories;
@@ -66,8 +112,8 @@ export function createContextualUtils(
 ) {
   const {
     withDemoDataStatus,
+    serverProfileStatus,
     odooServerStatus,
-    addonsPathMap,
     getPythonPath,
     getRepoPath,
     odevRepos,
@@ -78,6 +124,7 @@ export function createContextualUtils(
   const pushBranchHistory = async (branch: string) => {
     branchHistory.push(branch);
     await branchHistory.flush();
+    await branchStore.updateMetadata(branch, { lastCheckout: Date.now() });
   };
   const removeAndPushBranchHistory = async (toRemove: string, toPush: string) => {
     branchHistory.remove(toRemove);
@@ -98,6 +145,8 @@ export function createContextualUtils(
   };
 
   const commandHistory = StartServerCommandHistory.init(context.globalState);
+  const dbSnapshots = DBSnapshots.init(context.globalState);
+  const configOverrides = ConfigOverrides.init(context.globalState);
 
   const getOdooDevTerminal = (name: string) => {
     let terminal = odooDevTerminals.get(name);
@@ -121,6 +170,14 @@ export function createContextualUtils(
     return terminal;
   };
 
+  /**
+   * Same as `getConfigFilePath` but the user is not asked to select a config file.
+   */
+  const findConfigFilePath = () => {
+    const odooConfigPath = vscode.workspace.getConfiguration("odooDev").odooConfigPath as string;
+    return [odooConfigPath, `${os.homedir()}/.odoorc`].find((p) => p && fileExists(p));
+  };
+
   const getConfigFilePath = async () => {
     let configFilePath: string | undefined;
     let res = Result.try_(() => {
@@ -178,6 +235,151 @@ export function createContextualUtils(
     return configFilePath!;
   };
 
+  const getNamedRepos = () => {
+    const repos: [name: string, repo: Repository][] = [
+      ["odoo", odevRepos.odoo],
+      ...Object.entries(odevRepos.custom),
+    ];
+    if (odevRepos.upgrade) {
+      repos.push(["upgrade", odevRepos.upgrade]);
+    }
+    return repos;
+  };
+
+  const branchStore = new BranchStore(context.globalState, getNamedRepos);
+
+  const getActiveWorktree = () => {
+    if (!isWorktreeMode()) {
+      return undefined;
+    }
+    const branch = context.workspaceState.get<string>("odooDev.activeWorktree");
+    if (branch && hasWorktreeSet(branch)) {
+      return branch;
+    }
+  };
+
+  const setActiveWorktree = async (branch: string | undefined) => {
+    await context.workspaceState.update("odooDev.activeWorktree", branch);
+  };
+
+  /**
+   * Returns the location of the files of the given repo for the active branch.
+   * It's the worktree when a worktree set is active, otherwise, it's the root of the repo.
+   */
+  const getWorkPath = (repoName: string, repo: Repository) => {
+    const worktree = getActiveWorktree();
+    if (worktree) {
+      const worktreePath = getWorktreePath(worktree, repoName);
+      if (isValidDirectory(worktreePath)) {
+        return worktreePath;
+      }
+    }
+    return getRepoPath(repo);
+  };
+
+  const getOdooPath = () => getWorkPath("odoo", odevRepos.odoo);
+
+  const getOdooBinPath = () => `${getOdooPath()}/odoo-bin`;
+
+  /**
+   * Config overrides of the branch merged with the ones of its base branch.
+   * The database name is cut to the 63 characters limit of postgres.
+   */
+  const getConfigOverrides = (branch: string) => {
+    const base = getBase(branch);
+    const overrides =
+      base && base !== branch
+        ? ConfigOverrides.mergeOverrides(configOverrides.get(base), configOverrides.get(branch))
+        : configOverrides.get(branch);
+    const dbName = overrides.db_name;
+    return dbName === undefined
+      ? overrides
+      : ConfigOverrides.mergeOverrides(overrides, { ["db_name"]: dbName.slice(0, 63) });
+  };
+
+  const getActiveConfigOverrides = () => {
+    const branch = findActiveBranch();
+    return branch ? getConfigOverrides(branch) : {};
+  };
+
+  /**
+   * The `options` section of the config file, empty when there is no config file.
+   */
+  const getConfigFileOptions = (): Record<string, unknown> => {
+    const configFilePath = findConfigFilePath();
+    if (!configFilePath) {
+      return {};
+    }
+    const result = Result.try_(() => ini.parse(fs.readFileSync(configFilePath, "utf-8")));
+    return (Result.check(result) && result.value?.options) || {};
+  };
+
+  const getConfigAddonsPath = () => {
+    const override = getActiveConfigOverrides().addons_path;
+    if (override !== undefined) {
+      return override;
+    }
+    const addonsPath = getConfigFileOptions().addons_path;
+    return typeof addonsPath === "string" ? addonsPath : undefined;
+  };
+
+  const isAddonsPathManaged = () =>
+    vscode.workspace.getConfiguration("odooDev").manageAddonsPath as boolean;
+
+  /**
+   * Folders that contain the addons of the active branch, with their repository.
+   * - `odoo/addons` of the odoo repo, it's always loaded by the server.
+   * - The `addons_path` of the config overrides or of the config file, relative paths are resolved from the odoo repo. Without
+   *   it, or when the addons path is managed by the extension, `addons` of the odoo repo and the
+   *   folders of the other repos that contain addons, `enterprise` first then by name.
+   * - The `Extra Addons Paths` setting.
+   * Folders of the main repositories are mapped to the worktrees of the active worktree set. Folders
+   * outside of the repositories are named after their folder.
+   */
+  const getAddonsRoots = (): AddonsRoot[] => {
+    const repos: [string, Repository][] = [
+      ["odoo", odevRepos.odoo],
+      ...Object.entries(odevRepos.custom),
+    ];
+    const toRoot = (folder: string): AddonsRoot => {
+      for (const [name, repo] of repos) {
+        const relative = path.relative(getRepoPath(repo), folder);
+        if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+          return { repo: name, path: path.join(getWorkPath(name, repo), relative) };
+        }
+      }
+      return { repo: path.basename(folder), path: folder };
+    };
+
+    const odooRepoPath = getRepoPath(odevRepos.odoo);
+    const hasOverride = getActiveConfigOverrides().addons_path !== undefined;
+    const configAddonsPath =
+      isAddonsPathManaged() && !hasOverride ? undefined : getConfigAddonsPath();
+    const folders = configAddonsPath
+      ? parseAddonsPath(configAddonsPath, odooRepoPath)
+      : [
+          path.join(odooRepoPath, "addons"),
+          ...sortCustomRepos(Object.entries(odevRepos.custom)).flatMap(([, repo]) =>
+            findAddonsFolders(getRepoPath(repo))
+          ),
+        ];
+    const extraAddonsPaths = (vscode.workspace.getConfiguration("odooDev").extraAddonsPaths ||
+      []) as string[];
+    const roots = [
+      path.join(odooRepoPath, "odoo", "addons"),
+      ...folders,
+      ...parseAddonsPath(extraAddonsPaths.join(","), odooRepoPath),
+    ].map(toRoot);
+    return roots.filter((root, i) => roots.findIndex((r) => r.path === root.path) === i);
+  };
+
+  /**
+   * Folders that contain the addons of the active branch.
+   */
+  const getAddonsPaths = () => getAddonsRoots().map((root) => root.path);
+
+  const addonsIndex = new AddonsIndex(context.globalState, getAddonsRoots);
+
   const unstash = async (repo: Repository, branch: string) => {
     try {
       const head = await runShellCommand(`git rev-parse HEAD`, { cwd: repo.rootUri.fsPath });
@@ -198,7 +400,10 @@ export function createContextualUtils(
     }
   };
 
-  const getActiveBranch = async () => {
+  /**
+   * Branches checked out in the repositories, without duplicates.
+   */
+  const getCheckedOutBranches = () => {
     // NOTE: Upgrade repo is not considered at the moment because upgrade workflow is not yet implemented.
     const repos = [odevRepos.odoo, ...Object.entries(odevRepos.custom).map(([, repo]) => repo)];
     const branches: string[] = [];
@@ -207,52 +412,69 @@ export function createContextualUtils(
         branches.push(repo.state.HEAD.name);
       }
     }
-    if (branches.length === 0) {
-      throw new Error("Unable to determine active branch.");
+    return [...new Set(branches)];
+  };
+
+  /**
+   * Same as `getActiveBranch` but the user is not asked to select a branch, it's undefined when the
+   * branches of the repositories do not match.
+   */
+  const findActiveBranch = () => {
+    const worktree = getActiveWorktree();
+    if (worktree) {
+      return worktree;
     }
-    const uniqueBranches = [...new Set(branches)];
+    const uniqueBranches = getCheckedOutBranches();
     if (uniqueBranches.length === 1) {
       const [branch] = uniqueBranches;
       return branch;
     } else if (uniqueBranches.length === 2) {
       const [branch1, branch2] = uniqueBranches;
       // check if one is base of the other
-      const isBranch1Base = isBase(branch1);
-      const isBranch2Base = isBase(branch2);
-      if (isBranch1Base && getBase(branch2) === branch1) {
+      if (isBase(branch1) && getBase(branch2) === branch1) {
         return branch2;
-      } else if (isBranch2Base && getBase(branch1) === branch2) {
+      } else if (isBase(branch2) && getBase(branch1) === branch2) {
         return branch1;
-      } else if (getBase(branch1) !== getBase(branch2)) {
+      }
+    }
+  };
+
+  const getActiveBranch = async () => {
+    const activeBranch = findActiveBranch();
+    if (activeBranch) {
+      return activeBranch;
+    }
+    const uniqueBranches = getCheckedOutBranches();
+    if (uniqueBranches.length === 0) {
+      throw new Error("Unable to determine active branch.");
+    }
+    if (uniqueBranches.length === 2) {
+      const [branch1, branch2] = uniqueBranches;
+      if (getBase(branch1) !== getBase(branch2)) {
         throw new Error("Branches in the repositories do not match.");
-      } else {
-        const res = await vscode.window.showQuickPick(uniqueBranches, {
-          placeHolder: "Branches in the repositories do not match. Select one as db name.",
-        });
-        if (res) {
-          return res;
-        } else {
-          throw new Error("Unable to determine active branch.");
-        }
       }
+    }
+    // TODO: Generalize the case of more than 1 unique branches.
+    const res = await vscode.window.showQuickPick(uniqueBranches, {
+      placeHolder: "Branches in the repositories do not match. Select one as db name.",
+    });
+    if (res) {
+      return res;
     } else {
-      // TODO: Generalize the case of more than 1 unique branches.
-      const res = await vscode.window.showQuickPick(uniqueBranches, {
-        placeHolder: "Branches in the repositories do not match. Select one as db name.",
-      });
-      if (res) {
-        return res;
-      } else {
-        throw new Error("Unable to determine active branch.");
-      }
+      throw new Error("Unable to determine active branch.");
     }
   };
 
-  const getNormalStartServerArgs = async () => {
+  const getNormalStartServerArgs = async (options?: { dbName?: string }) => {
     const configFilePath = await getConfigFilePath();
     const args = [];
+    const overrides = getActiveConfigOverrides();
     const dbNameConfig = vscode.workspace.getConfiguration("odooDev").dbName as string;
-    if (dbNameConfig !== "configBased") {
+    if (options?.dbName) {
+      args.push("-d", options.dbName);
+    } else if (overrides.db_name) {
+      args.push("-d", overrides.db_name);
+    } else if (dbNameConfig !== "configBased") {
       const branch = await getActiveBranch();
       let dbName: string | undefined;
       if (dbNameConfig === "devBranchName") {
@@ -264,7 +486,14 @@ export function createContextualUtils(
         args.push("-d", dbName.slice(0, 63));
       }
     }
-    return withDemoFlags([...args, "-c", configFilePath]);
+    args.push("-c", configFilePath);
+    // The addons_path in the config file points to the main repositories, it's overridden when
+    // a worktree is active.
+    if (isAddonsPathManaged() || getActiveWorktree() || overrides.addons_path !== undefined) {
+      args.push("--addons-path", getAddonsPaths().join(","));
+    }
+    args.push(...ConfigOverrides.toArgs(overrides, ["db_name", "addons_path"]));
+    return withDemoFlags(args);
   };
 
   const getOdooShellCommandArgs = async () => {
@@ -273,8 +502,8 @@ export function createContextualUtils(
     return ["shell", ...normalArgs, "-p", "9999"];
   };
 
-  const getStartSelectedTestArgs = async (testTag: string) => {
-    const args = await getNormalStartServerArgs();
+  const getStartSelectedTestArgs = async (testTag: string, dbName?: string) => {
+    const args = await getNormalStartServerArgs({ dbName });
     return withDemoFlags([...args, "--stop-after-init", "--test-enable", "--test-tags", testTag]);
   };
 
@@ -283,22 +512,38 @@ export function createContextualUtils(
     return withDemoFlags([...args, "--stop-after-init", "--test-file", testFilePath]);
   };
 
+  /**
+   * The config overrides of the active branch take precedence over the config file.
+   */
   async function getOdooConfigValue(key: string) {
+    const overrides: Record<string, string | undefined> = getActiveConfigOverrides();
+    if (overrides[key] !== undefined) {
+      return overrides[key];
+    }
     const configFilePath = await getConfigFilePath();
     const configFileData = fs.readFileSync(configFilePath, "utf-8");
     const config = ini.parse(configFileData);
     return config?.options?.[key] as string | undefined;
   }
 
-  async function getDBName() {
+  /**
+   * @param branch defaults to the active branch.
+   */
+  async function getDBName(branch?: string) {
+    const override = branch
+      ? getConfigOverrides(branch).db_name
+      : getActiveConfigOverrides().db_name;
+    if (override) {
+      return override;
+    }
     let dbName: string | undefined;
     const dbNameConfig = vscode.workspace.getConfiguration("odooDev").dbName as string;
     if (dbNameConfig === "configBased") {
       dbName = await getOdooConfigValue("db_name");
     } else if (dbNameConfig === "devBranchName") {
-      dbName = await getActiveBranch();
+      dbName = branch || (await getActiveBranch());
     } else if (dbNameConfig === "baseBranchName") {
-      const branch = await getActiveBranch();
+      branch = branch || (await getActiveBranch());
       if (branch) {
         dbName = getBase(branch);
       }
@@ -306,20 +551,60 @@ export function createContextualUtils(
     return dbName?.slice(0, 63);
   }
 
-  const isOdooServerRunning = async (terminalPID: number) => {
-    const procs = await getChildProcs(terminalPID);
-    const serverProcs = await Promise.all(procs.map((proc) => isOdooServer(parseInt(proc.PID))));
-    return serverProcs.filter((x) => x).length > 0;
+  /**
+   * The filestores of the databases are located in the `data_dir` of the config.
+   */
+  async function getDataDir() {
+    const dataDir = await getOdooConfigValue("data_dir");
+    return dataDir ? dataDir.replace(/^~(?=$|\/)/, os.homedir()) : getDefaultDataDir();
+  }
+
+  const isMultipleServers = () =>
+    vscode.workspace.getConfiguration("odooDev").multipleServers as boolean;
+
+  const isOpenBrowserWhenReady = () =>
+    vscode.workspace.getConfiguration("odooDev").openBrowserWhenReady as boolean;
+
+  /**
+   * Name of the server instance of the active branch, it's also the name of its terminal.
+   * There is a single instance when multiple servers are not allowed.
+   */
+  const getServerInstanceName = () => {
+    const branch = isMultipleServers() ? findActiveBranch() : undefined;
+    return branch ? `${ODOO_SERVER_TERMINAL}: ${branch}` : ODOO_SERVER_TERMINAL;
   };
 
-  async function ensureNoActiveServer({ shouldConfirm = true, waitForKill = false } = {}) {
-    const terminal = getOdooDevTerminal(ODOO_SERVER_TERMINAL);
-    const terminalPID = await terminal.processId;
-    if (!terminalPID) {
-      return Result.success();
+  const serverInstances = new ServerInstances(isMultipleServers);
+
+  /**
+   * The start/stop item of the status bar is about the instance of the active branch.
+   */
+  const updateServerStatus = () => {
+    const isRunning = serverInstances.get(getServerInstanceName()) !== undefined;
+    vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", isRunning);
+    if (isRunning) {
+      odooServerStatus.command = "odooDev.stopActiveServer";
+      odooServerStatus.text = "$(debug-stop) Stop Odoo Server";
+    } else {
+      odooServerStatus.command = "odooDev.startServer";
+      odooServerStatus.text = "$(debug-start) Start Odoo Server";
     }
-    const hasActiveServer = await isOdooServerRunning(terminalPID);
-    if (hasActiveServer) {
+  };
+
+  serverInstances.onDidChange(updateServerStatus);
+
+  const getDefaultPort = async () => parseInt((await getOdooConfigValue("http_port")) || "8069");
+
+  /**
+   * @param name defaults to the instance of the active branch
+   */
+  async function ensureNoActiveServer({
+    shouldConfirm = true,
+    waitForKill = false,
+    name = getServerInstanceName(),
+  } = {}) {
+    const server = serverInstances.get(name)?.process;
+    if (server?.isRunning) {
       if (shouldConfirm) {
         const response = await vscode.window.showInformationMessage(
           "There is an active server, it will be stopped to continue.",
@@ -332,20 +617,27 @@ export function createContextualUtils(
           );
         }
       }
-      const killServerProm = killOdooServer(terminalPID);
+      const stopped = server.stop();
       if (waitForKill) {
-        await killServerProm;
+        await stopped;
       }
     }
     return Result.success();
   }
 
-  async function ensureNoDebugSession(shouldConfirm = true) {
-    for (const debugSession of getDebugSessions()) {
+  /**
+   * @param name the debug sessions of the other server instances are not stopped
+   */
+  async function ensureNoDebugSession(shouldConfirm = true, name = getServerInstanceName()) {
+    for (const debugSession of [...getDebugSessions()]) {
       if (debugSession.name.includes(DEBUG_JS_NAME) && debugSession.type === "pwa-chrome") {
         // Ignore debug session if it is for debugging chrome, so return early.
         continue;
       }
+      const instanceName = debugSession.configuration.odooDevInstance as string | undefined;
+      if (instanceName && instanceName !== name) {
+        continue;
+      }
       if (shouldConfirm) {
         const response = await vscode.window.showInformationMessage(
           "There is an active debug session, it will be stopped to continue.",
@@ -367,14 +659,21 @@ export function createContextualUtils(
     return Result.success();
   }
 
-  async function ensureNoRunningServer({ waitForKill = false } = {}) {
+  /**
+   * Stops the server instance of the active branch, the other instances keep running.
+   * @param name the instance to stop instead, e.g. the one of a command of the history
+   */
+  async function ensureNoRunningServer({
+    waitForKill = false,
+    name = getServerInstanceName(),
+  } = {}) {
     const shouldConfirm = vscode.workspace.getConfiguration("odooDev").confirmStopServer as boolean;
-    const noActiveServerResult = await ensureNoActiveServer({ shouldConfirm, waitForKill });
+    const noActiveServerResult = await ensureNoActiveServer({ shouldConfirm, waitForKill, name });
     if (!Result.check(noActiveServerResult)) {
       return noActiveServerResult;
     }
 
-    const noDebugSessionResult = await ensureNoDebugSession(shouldConfirm);
+    const noDebugSessionResult = await ensureNoDebugSession(shouldConfirm, name);
     if (!Result.check(noDebugSessionResult)) {
       return noDebugSessionResult;
     }
@@ -382,6 +681,142 @@ export function createContextualUtils(
     return Result.success();
   }
 
+  const isSnapshotOnSwitch = () =>
+    vscode.workspace.getConfiguration("odooDev").snapshotOnSwitch as boolean;
+
+  const dropSnapshots = async (snapshots: DBSnapshots.DBSnapshot[]) => {
+    const dataDir = await getDataDir();
+    for (const snapshot of snapshots) {
+      try {
+        await dropDatabase(snapshot.name);
+        await filestore.remove(dataDir, snapshot.name);
+      } catch (_e) {
+        // The snapshot is probably dropped already (e.g. from the Databases view).
+      }
+    }
+  };
+
+  /**
+   * Takes a template copy of the database of the active branch before switching to `nextBranch`.
+   * - Only the latest `snapshotRetention` snapshots of the branch are kept.
+   * - Snapshots of the branches that are no longer in the branch history are dropped.
+   */
+  const snapshotBeforeSwitch = async (nextBranch: string) => {
+    const branchRes = await Result.try_(getActiveBranch);
+    if (!Result.check(branchRes) || branchRes.value === nextBranch) {
+      return;
+    }
+    const branch = branchRes.value;
+    const dbName = await getDBName(branch);
+    if (!dbName || !(await databaseExists(dbName))) {
+      return;
+    }
+    // A database can't be used as template while there are connections to it.
+    if (!Result.check(await ensureNoRunningServer({ waitForKill: true }))) {
+      throw new Error(`Unable to take a snapshot of '${dbName}' while the server is running.`);
+    }
+
+    const dataDir = await getDataDir();
+    const createdAt = new Date();
+    const snapshot = {
+      name: DBSnapshots.getSnapshotName(dbName, createdAt),
+      source: dbName,
+      createdAt: createdAt.getTime(),
+    };
+    const takeSnapshot = withProgress({
+      message: `Taking a snapshot of '${dbName}'...`,
+      cb: async () => {
+        await duplicateDatabase(dbName, snapshot.name);
+        await filestore.copy(dataDir, dbName, snapshot.name);
+      },
+    });
+    await takeSnapshot();
+
+    const retention = vscode.workspace.getConfiguration("odooDev").snapshotRetention as number;
+    dbSnapshots.push(branch, snapshot);
+    const toDrop = [
+      ...dbSnapshots.trim(branch, Math.max(retention, 1)),
+      ...dbSnapshots.prune([...branchHistory.items, branch]),
+    ];
+    await dbSnapshots.flush();
+    await dropSnapshots(toDrop);
+    odooDatabasesTreeProvider.refresh();
+  };
+
+  /**
+   * Replaces the snapshotted database with the content of the snapshot.
+   * The snapshot is kept so that it can be restored again.
+   */
+  const restoreSnapshot = async (branch: string, snapshot: DBSnapshots.DBSnapshot) => {
+    if (!(await databaseExists(snapshot.name))) {
+      dbSnapshots.remove(branch, snapshot.name);
+      await dbSnapshots.flush();
+      throw new Error(`The snapshot '${snapshot.name}' no longer exists.`);
+    }
+    if (!Result.check(await ensureNoRunningServer({ waitForKill: true }))) {
+      return;
+    }
+    const dataDir = await getDataDir();
+    const restore = withProgress({
+      message: `Restoring '${snapshot.source}' from '${snapshot.name}'...`,
+      cb: async () => {
+        if (await databaseExists(snapshot.source)) {
+          await dropDatabase(snapshot.source);
+        }
+        await filestore.remove(dataDir, snapshot.source);
+        await duplicateDatabase(snapshot.name, snapshot.source);
+        await filestore.copy(dataDir, snapshot.name, snapshot.source);
+      },
+    });
+    await restore();
+    odooDatabasesTreeProvider.refresh();
+  };
+
+  const offerSnapshotRestore = async (branch: string) => {
+    const snapshots = dbSnapshots.get(branch);
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest) {
+      return;
+    }
+    const date = new Date(latest.createdAt).toLocaleString();
+    const response = await vscode.window.showInformationMessage(
+      `Restore '${latest.source}' from the snapshot taken when leaving '${branch}' (${date})?`,
+      "Restore",
+      ...(snapshots.length > 1 ? ["Choose Snapshot"] : [])
+    );
+    if (response === "Restore") {
+      await vscode.commands.executeCommand("odooDev.restoreDBSnapshot", latest);
+    } else if (response === "Choose Snapshot") {
+      await vscode.commands.executeCommand("odooDev.restoreDBSnapshot");
+    }
+  };
+
+  /**
+   * Wraps a function that switches to another branch: checkout, fetch or creation.
+   * With `odooDev.snapshotOnSwitch`, the database of the active branch is snapshotted before the
+   * switch, and the restore of the latest snapshot of the target branch is offered after it.
+   * @param getBranch the target branch, from the arguments of `cb`
+   */
+  const withSnapshotOnSwitch = <A extends unknown[], R>(
+    cb: (...args: A) => Promise<R>,
+    getBranch: (...args: A) => string
+  ) => {
+    return async (...args: A) => {
+      if (!isSnapshotOnSwitch()) {
+        return cb(...args);
+      }
+      const branch = getBranch(...args);
+      await snapshotBeforeSwitch(branch);
+      const result = await cb(...args);
+      offerSnapshotRestore(branch).catch((error) => {
+        vscode.window.showErrorMessage(
+          `Failed to restore the snapshot of '${branch}': ${(error as Error).message}`
+        );
+      });
+      return result;
+    };
+  };
+
   const rootPath =
     vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0
       ? vscode.workspace.workspaceFolders[0].uri.fsPath
@@ -409,6 +844,17 @@ export function createContextualUtils(
     return results.filter((r) => !r.result).map((r) => r.tag);
   };
 
+  /**
+   * Dirty repositories that should block switching to a branch.
+   */
+  const getDirtyRepoNamesBeforeSwitch = async (branch: string) => {
+    if (isWorktreeMode() && !isBase(branch)) {
+      // Opening a worktree set doesn't touch the working trees of the main repositories.
+      return [];
+    }
+    return getDirtyRepoNames();
+  };
+
   const getDirtyRepos = async () => {
     const odoo = odevRepos.odoo;
     const upgrade = odevRepos.upgrade;
@@ -440,14 +886,7 @@ export function createContextualUtils(
     }
   };
 
-  const fetchBranch = async (
-    repoName: string,
-    repo: Repository,
-    base: string,
-    branch: string,
-    isDirty: boolean,
-    fork?: string
-  ) => {
+  const fetchFromRemote = async (repo: Repository, branch: string, fork?: string) => {
     let remote = "origin";
     if (fork) {
       for (const r of repo.state.remotes.filter((r) => isMatchingFork(r, fork))) {
@@ -457,8 +896,19 @@ export function createContextualUtils(
     } else {
       remote = (await findRemote(repo, branch)) || "origin";
     }
+    return Result.try_(() => repo.fetch(remote, branch));
+  };
+
+  const fetchBranch = async (
+    repoName: string,
+    repo: Repository,
+    base: string,
+    branch: string,
+    isDirty: boolean,
+    fork?: string
+  ) => {
     let branchToCheckout = branch;
-    const fetchRes = await Result.try_(() => repo.fetch(remote, branch));
+    const fetchRes = await fetchFromRemote(repo, branch, fork);
     if (!Result.check(fetchRes)) {
       if (!base) {
         throw new Error("Unable to checkout the branch even its base.");
@@ -504,6 +954,10 @@ export function createContextualUtils(
     dirtyRepos: string[],
     fork?: string
   ) => {
+    if (isWorktreeMode()) {
+      return fetchWorktreeSet(base, branch, fork);
+    }
+
     const odoo = odevRepos.odoo;
     const upgrade = odevRepos.upgrade;
 
@@ -642,6 +1096,127 @@ export function createContextualUtils(
     }
   };
 
+  const addToWorktreeSet = async (
+    repoName: string,
+    repo: Repository,
+    base: string,
+    branch: string,
+    create: boolean
+  ) => {
+    const worktreePath = getWorktreePath(branch, repoName);
+    if (isValidDirectory(worktreePath)) {
+      return Result.success();
+    }
+    const repoPath = getRepoPath(repo);
+    let ref: WorktreeRef;
+    if (repoName === "upgrade" && base !== "master") {
+      ref = { detach: "master" };
+    } else if (create) {
+      ref = { newBranch: branch, base };
+    } else if (await getBranch(repo, branch)) {
+      ref = { branch };
+    } else {
+      // Let git create the branch from the matching remote branch, if there is any.
+      const addRes = await Result.try_(addWorktree, repoPath, worktreePath, { branch });
+      if (Result.check(addRes)) {
+        return Result.success();
+      }
+      ref = { detach: base };
+    }
+    const addRes = await Result.try_(addWorktree, repoPath, worktreePath, ref);
+    if (!Result.check(addRes)) {
+      return Result.fail(
+        new Error(
+          `Failed to add the worktree of '${branch}' in '${repoName}' because of "${addRes.error.message}".`
+        )
+      );
+    }
+    return Result.success();
+  };
+
+  /**
+   * - Adds the missing worktrees of the branch, one for each repository.
+   * - Marks the worktree set of the branch as active.
+   * @param base
+   * @param branch
+   * @param create when true, the branch is created out of the base.
+   */
+  const openWorktreeSet = async (base: string, branch: string, create: boolean = false) => {
+    const addProms = getNamedRepos().map(([name, repo]) =>
+      addToWorktreeSet(name, repo, base, branch, create)
+    );
+    const addWithSpinner = withProgress({
+      message: `Opening worktrees of '${branch}'...`,
+      cb: () => Promise.all(addProms),
+    });
+    const addResults = await addWithSpinner();
+    const [successes, errors] = Result.partition(addResults);
+    if (successes.length === 0) {
+      throw new Error("Failed to add the worktree from any of the repositories.");
+    }
+    await setActiveWorktree(branch);
+    if (errors.length > 0) {
+      throw new Error(errors.map((f) => f.error.message).join("\n"));
+    }
+  };
+
+  const fetchWorktreeSet = async (base: string, branch: string, fork?: string) => {
+    const fetchProms = getNamedRepos()
+      .filter(([name]) => name !== "upgrade" || base === "master")
+      .map(([, repo]) => fetchFromRemote(repo, branch, fork));
+    const fetchWithSpinner = withProgress({
+      message: `Fetching '${branch}'...`,
+      cb: () => Promise.all(fetchProms),
+    });
+    const fetchResults = await fetchWithSpinner();
+    if (!fetchResults.some((res) => Result.check(res))) {
+      throw new Error("Failed to fetch the branch from any of the repositories.");
+    }
+    await openWorktreeSet(base, branch);
+  };
+
+  const removeWorktreeSet = async (branch: string) => {
+    const removeProms = getNamedRepos().map(async ([name, repo]) => {
+      const worktreePath = getWorktreePath(branch, name);
+      if (!isValidDirectory(worktreePath)) {
+        return Result.success();
+      }
+      const removeRes = await Result.try_(removeWorktree, getRepoPath(repo), worktreePath);
+      if (!Result.check(removeRes)) {
+        return Result.fail(
+          new Error(
+            `Failed to remove the worktree of '${branch}' in '${name}' because of "${removeRes.error.message}".`
+          )
+        );
+      }
+      return Result.success();
+    });
+    const [, errors] = Result.partition(await Promise.all(removeProms));
+    if (errors.length > 0) {
+      throw new Error(errors.map((f) => f.error.message).join("\n"));
+    }
+    try {
+      fs.rmdirSync(getWorktreeSetPath(branch));
+    } catch (_e) {
+      // Not empty, so we leave it to the user.
+    }
+    if (context.workspaceState.get<string>("odooDev.activeWorktree") === branch) {
+      await setActiveWorktree(undefined);
+    }
+  };
+
+  const getDirtyWorktreeNames = async (branch: string) => {
+    const results = await Promise.all(
+      getNamedRepos().map(([name]) =>
+        taggedCall(name, async () => {
+          const worktreePath = getWorktreePath(branch, name);
+          return isValidDirectory(worktreePath) ? isWorktreeClean(worktreePath) : true;
+        })
+      )
+    );
+    return results.filter((r) => !r.result).map((r) => r.tag);
+  };
+
   const simpleCheckout = async (repo: Repository, branch: string, isDirty: boolean) => {
     if (isDirty && (vscode.workspace.getConfiguration("odooDev").autoStash as boolean)) {
       const stashRes = await tryRunShellCommand(`git stash -u`, { cwd: repo.rootUri.fsPath });
@@ -712,6 +1287,18 @@ export function createContextualUtils(
   };
 
   const checkoutBranches = async (branch: string, dirtyRepos: string[]) => {
+    if (isWorktreeMode()) {
+      if (!isBase(branch)) {
+        const base = getBase(branch);
+        if (!base) {
+          throw new Error(`Unable to recognize the base branch of '${branch}'.`);
+        }
+        return openWorktreeSet(base, branch);
+      }
+      // Base branches are checked out in the main repositories.
+      await setActiveWorktree(undefined);
+    }
+
     const checkoutProms = [
       simpleCheckout(odevRepos.odoo, branch, dirtyRepos.includes("odoo")),
       ...Object.entries(odevRepos.custom).map(([name, repo]) =>
@@ -800,6 +1387,10 @@ export function createContextualUtils(
    * @param branch
    */
   const createBranches = async (base: string, branch: string, dirtyRepos: string[]) => {
+    if (isWorktreeMode()) {
+      return openWorktreeSet(base, branch, true);
+    }
+
     const createBranchProms = [
       // branch in odoo
       createBranch(odevRepos.odoo, base, branch, dirtyRepos.includes("odoo")),
@@ -868,6 +1459,11 @@ export function createContextualUtils(
   const deleteBranches = async (base: string, branch: string, withSpinner: boolean = true) => {
     const upgrade = odevRepos.upgrade;
 
+    if (hasWorktreeSet(branch)) {
+      // The branch can't be deleted while it's checked out in a worktree.
+      await removeWorktreeSet(branch);
+    }
+
     const deleteProms = [
       deleteBranch(odevRepos.odoo, base, branch),
       ...Object.entries(odevRepos.custom).map(([, repo]) => deleteBranch(repo, base, branch)),
@@ -1068,20 +1664,11 @@ export function createContextualUtils(
     }
   };
 
-  const getClassAndMethod = async (symbols: vscode.DocumentSymbol[], position: vscode.Position) => {
+  const getClassAndMethod = (editor: vscode.TextEditor) => {
     // Find the class it belongs, followed by the method.
-    const classSymbol = symbols.find(
-      (s) => s.kind === vscode.SymbolKind.Class && s.range.contains(position)
-    );
-    const methodSymbol = classSymbol
-      ? classSymbol.children.find(
-          (s) =>
-            /^test.*/.test(s.name) &&
-            s.kind === vscode.SymbolKind.Method &&
-            s.range.contains(position)
-        )
-      : undefined;
-    return { classSymbol, methodSymbol };
+    const classes = parseTestFile(editor.document.getText());
+    const { testClass, testMethod } = getTestAt(classes, editor.selection.active.line);
+    return { classSymbol: testClass, methodSymbol: testMethod };
   };
 
   const getTestTag = async (editor: vscode.TextEditor) => {
@@ -1091,25 +1678,29 @@ export function createContextualUtils(
       throw new Error("Current file is not a test file.");
     }
 
-    const position = editor.selection.active;
-    const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
-      "vscode.executeDocumentSymbolProvider",
-      editor.document.uri
-    );
-
-    const { classSymbol, methodSymbol } = await getClassAndMethod(symbols, position);
+    const { classSymbol, methodSymbol } = getClassAndMethod(editor);
 
     return `${addon}${classSymbol ? `:${classSymbol.name}` : ""}${
       methodSymbol ? `.${methodSymbol.name}` : ""
     }`;
   };
 
-  const treeDataProvider = new OdooDevBranches(odevRepos);
-  const odooAddonsTreeProvider = new OdooAddonsTree(odevRepos, getRepoPath);
+  const treeDataProvider = new OdooDevBranches(odevRepos, getActiveWorktree, branchStore);
+  const getDependencyGraph = () => addonsIndex.getGraph();
+
+  const odooAddonsTreeProvider = new OdooAddonsTree(getAddonsRoots, addonsIndex);
+  const odooDatabasesTreeProvider = new OdooDatabasesTree();
+
+  const _onDidRefreshTrees = new vscode.EventEmitter<void>();
+  const onDidRefreshTrees = _onDidRefreshTrees.event;
 
   const _debouncedRefreshTrees = debounce(() => {
+    // E.g. the active worktree set changed.
+    addonsIndex.load();
     treeDataProvider.refresh();
     odooAddonsTreeProvider.refresh();
+    updateServerStatus();
+    _onDidRefreshTrees.fire();
   }, 1000);
 
   function refreshTrees<A extends any[], R extends any>(
@@ -1131,12 +1722,68 @@ export function createContextualUtils(
     };
   }
 
-  const getStartServerArgs = async (options?: { testTags: string[] }) => {
+  /**
+   * The selected profile, undefined if it was removed from the settings.
+   */
+  const getActiveServerProfile = () => {
+    const name = context.workspaceState.get<string>("odooDev.activeServerProfile");
+    return getServerProfiles().find((profile) => profile.name === name);
+  };
+
+  const updateServerProfileStatus = () => {
+    const profile = getActiveServerProfile();
+    serverProfileStatus.text = getServerProfileStatusText(profile);
+    serverProfileStatus.tooltip = profile ? profile.args : "Select a server profile";
+  };
+
+  const setActiveServerProfile = async (name: string | undefined) => {
+    await context.workspaceState.update("odooDev.activeServerProfile", name);
+    updateServerProfileStatus();
+  };
+
+  /**
+   * The options of the active server profile are added after the other ones so that they take
+   * precedence. They are not added when running the given test tags, e.g. from the test explorer.
+   * A profile with invalid options, e.g. edited in the settings since its selection, is ignored.
+   */
+  const getStartServerArgs = async (options?: { testTags?: string[]; dbName?: string }) => {
+    const args = await getDefaultStartServerArgs(options);
+    const profile = getActiveServerProfile();
+    if (profile && !options?.testTags) {
+      const result = Result.try_(splitArgs, profile.args);
+      if (Result.check(result)) {
+        args.push(...result.value);
+      } else {
+        vscode.window.showWarningMessage(
+          `The server profile '${profile.name}' is ignored, its options are invalid: ${result.error.message}`
+        );
+      }
+    }
+    return isMultipleServers() ? withFreePort(args) : args;
+  };
+
+  /**
+   * Another port is given to the server when its port is used by another instance or by another
+   * process.
+   */
+  const withFreePort = async (args: string[]) => {
+    const port = getPortFromArgs(args) || (await getDefaultPort());
+    const usedPorts = serverInstances.getUsedPorts(getServerInstanceName());
+    const freePort = await findFreePort(port, usedPorts);
+    return freePort === port ? args : [...args, "--http-port", `${freePort}`];
+  };
+
+  const getDefaultStartServerArgs = async (options?: { testTags?: string[]; dbName?: string }) => {
     const testFileRegex = /.*\/(addons|enterprise)\/(.*)\/tests\/test_.*\.py/;
     const autoTest = vscode.workspace.getConfiguration("odooDev")["autoTest"] as boolean;
 
     if (options?.testTags) {
-      return await getStartSelectedTestArgs(options.testTags.join(","));
+      return await getStartSelectedTestArgs(options.testTags.join(","), options.dbName);
+    }
+
+    if (options?.dbName) {
+      // Starting on a specific database is not about running the tests of the active file.
+      return await getNormalStartServerArgs({ dbName: options.dbName });
     }
 
     const editor = vscode.window.activeTextEditor;
@@ -1144,13 +1791,7 @@ export function createContextualUtils(
       const match = editor.document.uri.path.match(testFileRegex);
       const [, , addon] = match || [undefined, undefined, undefined];
       if (addon) {
-        const position = editor.selection.active;
-        const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
-          "vscode.executeDocumentSymbolProvider",
-          editor.document.uri
-        );
-
-        const { classSymbol, methodSymbol } = await getClassAndMethod(symbols, position);
+        const { classSymbol, methodSymbol } = getClassAndMethod(editor);
 
         if (!classSymbol && !methodSymbol) {
           return await getStartCurrentTestFileArgs(editor.document.uri.path);
@@ -1168,6 +1809,139 @@ export function createContextualUtils(
     }
   };
 
+  const testDiagnostics = vscode.languages.createDiagnosticCollection("Odoo Tests");
+
+  const clearTestDiagnostics = () => testDiagnostics.clear();
+
+  /**
+   * Location of the test file of the result, from the traceback if possible.
+   */
+  const getTestFilePath = (result: TestResult) => {
+    const addonTestsPath = `${path.sep}${result.addon}${path.sep}tests${path.sep}`;
+    for (const failure of result.failures) {
+      const frame = [...failure.frames].reverse().find((f) => f.file.includes(addonTestsPath));
+      if (frame) {
+        return frame.file;
+      }
+    }
+    const relativePath = `${result.module.split(".").join(path.sep)}.py`;
+    return getAddonsPaths()
+      .map((addonsPath) => path.join(addonsPath, result.addon, relativePath))
+      .find((filePath) => fileExists(filePath));
+  };
+
+  const getTestDiagnostics = (result: TestResult, filePath: string) => {
+    const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+    const testClass = parseTestFile(lines.join("\n")).find((c) => c.name === result.className);
+    const testMethod = testClass?.methods.find((m) => m.name === result.methodName);
+    const test = testMethod || testClass;
+    let range = new vscode.Range(0, 0, 0, 0);
+    if (test) {
+      const start = lines[test.startLine].indexOf(test.name);
+      range = new vscode.Range(test.startLine, start, test.startLine, start + test.name.length);
+    }
+    return result.failures.map((failure) => {
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        `${failure.flavour}: ${result.className}.${result.methodName}\n${failure.error}`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = "odoo tests";
+      diagnostic.relatedInformation = failure.frames.map((frame) => {
+        const position = new vscode.Position(frame.line - 1, 0);
+        const location = new vscode.Location(vscode.Uri.file(frame.file), position);
+        return new vscode.DiagnosticRelatedInformation(location, `in ${frame.name}`);
+      });
+      return diagnostic;
+    });
+  };
+
+  /**
+   * Shows the failures as diagnostics on the failing test methods.
+   * @param options.notify when true, a summary of the results is shown.
+   */
+  const reportTestResults = (results: TestResult[], { notify = true } = {}) => {
+    if (results.length > 0) {
+      context.workspaceState.update("odooDev.failedTestTags", getFailedTestTags(results));
+    }
+
+    const diagnostics = new Map<string, vscode.Diagnostic[]>();
+    for (const result of results.filter((r) => r.failures.length > 0)) {
+      const filePath = getTestFilePath(result);
+      if (!filePath) {
+        continue;
+      }
+      diagnostics.set(filePath, [
+        ...(diagnostics.get(filePath) || []),
+        ...getTestDiagnostics(result, filePath),
+      ]);
+    }
+    testDiagnostics.clear();
+    for (const [filePath, items] of diagnostics) {
+      testDiagnostics.set(vscode.Uri.file(filePath), items);
+    }
+
+    if (!notify) {
+      return;
+    }
+    if (results.length === 0) {
+      vscode.window.showInformationMessage("No test was run.");
+    } else if (results.some((r) => r.failures.length > 0)) {
+      vscode.window
+        .showErrorMessage(summarizeTestResults(results), "Show Problems")
+        .then((response) => {
+          if (response) {
+            vscode.commands.executeCommand("workbench.actions.view.problems");
+          }
+        });
+    } else {
+      vscode.window.showInformationMessage(summarizeTestResults(results));
+    }
+  };
+
+  /**
+   * Test tags of the failed tests of the last test run.
+   */
+  const getLastFailedTestTags = () => {
+    return context.workspaceState.get<string[]>("odooDev.failedTestTags", []);
+  };
+
+  /**
+   * Parses the output of a server that runs tests as it's written, the results are reported when
+   * it ends.
+   */
+  const startTestLog = () => {
+    const parser = new TestLogParser();
+    // The parser is fed with complete lines.
+    let pendingText = "";
+    clearTestDiagnostics();
+    return {
+      write: (text: string) => {
+        pendingText += text;
+        const end = pendingText.lastIndexOf("\n");
+        if (end !== -1) {
+          parser.feed(pendingText.slice(0, end));
+          pendingText = pendingText.slice(end + 1);
+        }
+      },
+      end: () => {
+        parser.feed(pendingText);
+        pendingText = "";
+        reportTestResults(parser.end());
+      },
+    };
+  };
+
+  /**
+   * Test logs of the server instances that run tests in the debugger, by instance name.
+   */
+  const debugTestLogs = new Map<string, ReturnType<typeof startTestLog>>();
+
+  const endDebugTestLog = (name: string) => {
+    debugTestLogs.get(name)?.end();
+    debugTestLogs.delete(name);
+  };
+
   async function withDemoFlags(args: string[]) {
     const withDemoData = await getWithDemoData();
     if (typeof withDemoData === "boolean") {
@@ -1180,39 +1954,268 @@ export function createContextualUtils(
     return args;
   }
 
-  const sendStartServerCommand = async (command: string, terminalName: string) => {
-    const terminal = getOdooDevTerminal(terminalName);
+  /**
+   * The arguments are passed as they are to the server, the command line is only for the history
+   * and the terminal.
+   */
+  const sendStartServerCommand = async (
+    python: string,
+    odooBin: string,
+    args: string[],
+    terminalName: string
+  ) => {
+    const command = joinArgs([python, odooBin, ...args]);
+    commandHistory.push(terminalName, command);
+    commandHistory.flush();
+
+    if (terminalName.startsWith(ODOO_SERVER_TERMINAL)) {
+      await startServerProcess(python, [odooBin, ...args], terminalName);
+      return;
+    }
 
+    // The shell is interactive, it's run in a normal terminal.
+    const terminal = getOdooDevTerminal(terminalName);
     terminal.show();
     // In some odoo config files, the addons_path is set using relative paths.
     // Important to cd to the odoo repo before running the command.
-    terminal.sendText(`cd ${odevRepos.odoo.rootUri.fsPath} && ${command}`);
+    terminal.sendText(`cd ${joinArgs([getOdooPath()])} && ${command}`);
+  };
 
-    commandHistory.push(terminalName, command);
-    commandHistory.flush();
+  /**
+   * Log of each server instance, kept after the server stops until it's started again.
+   */
+  const serverLogs = new Map<string, ServerLog>();
 
-    // when the server stops, set the context to false
-    let timeout = setTimeout(async function poll() {
-      const pid = await terminal.processId;
-      if (!pid) {
-        vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", false);
-        odooServerStatus.command = "odooDev.startServer";
-        odooServerStatus.text = "$(debug-start) Start Odoo Server";
-      } else {
-        const isRunning = await isOdooServerRunning(pid);
-        if (isRunning) {
-          vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", true);
-          odooServerStatus.command = "odooDev.stopActiveServer";
-          odooServerStatus.text = "$(debug-stop) Stop Odoo Server";
-          timeout = setTimeout(poll, 500);
-        } else {
-          vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", false);
-          odooServerStatus.command = "odooDev.startServer";
-          odooServerStatus.text = "$(debug-start) Start Odoo Server";
-          clearTimeout(timeout);
+  /**
+   * One collection per server instance, so that starting an instance doesn't clear the errors of
+   * the others.
+   */
+  const loadingDiagnostics = new Map<string, vscode.DiagnosticCollection>();
+
+  const getLoadingDiagnostics = (name: string) => {
+    let collection = loadingDiagnostics.get(name);
+    if (!collection) {
+      collection = vscode.languages.createDiagnosticCollection(`Odoo Loading: ${name}`);
+      loadingDiagnostics.set(name, collection);
+    }
+    return collection;
+  };
+
+  /**
+   * Shows the error as a diagnostic on its file, or on the manifest of the module that was being
+   * loaded when the file is unknown.
+   * @param name the server instance that logged the error
+   * @returns false if the error can't be located
+   */
+  const reportLoadingError = (name: string, error: LoadingError) => {
+    let filePath = error.file && fileExists(error.file) ? error.file : undefined;
+    const line = filePath ? Math.max(error.line - 1, 0) : 0;
+    const addonPath = error.module && addonsIndex.getPath(error.module);
+    if (!filePath && addonPath) {
+      filePath = path.join(addonPath, "__manifest__.py");
+    }
+    if (!filePath) {
+      return false;
+    }
+    const uri = vscode.Uri.file(filePath);
+    const collection = getLoadingDiagnostics(name);
+    const diagnostics = collection.get(uri) || [];
+    // The same error can be logged when it happens and when the registry fails to load.
+    const isReported = diagnostics.some(
+      (d) => d.range.start.line === line && d.message === error.message
+    );
+    if (!isReported) {
+      const range = new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        error.message,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = error.module ? `odoo loading of ${error.module}` : "odoo loading";
+      collection.set(uri, [...diagnostics, diagnostic]);
+    }
+    return true;
+  };
+
+  /**
+   * Starts a new log for the server instance `name`, the loading errors of the previous start are
+   * cleared.
+   */
+  const startServerLog = (name: string) => {
+    const parser = new LoadingErrorParser();
+    let hasLoadingErrors = false;
+    const log = new ServerLog(undefined, (record) => {
+      const error = parser.parse(record);
+      if (error && reportLoadingError(name, error) && !hasLoadingErrors) {
+        hasLoadingErrors = true;
+        vscode.window
+          .showErrorMessage(`${name} failed to load the modules.`, "Show Problems")
+          .then((response) => {
+            if (response) {
+              vscode.commands.executeCommand("workbench.actions.view.problems");
+            }
+          });
+      }
+    });
+    serverLogs.set(name, log);
+    getLoadingDiagnostics(name).clear();
+    ServerLogPanel.clear(name);
+    return log;
+  };
+
+  /**
+   * Called when the server stops, the log is kept to be shown.
+   */
+  const endServerLog = (name: string, log: ServerLog) => {
+    const records = log.end();
+    // The server might have been started again in the meantime.
+    if (serverLogs.get(name) === log) {
+      ServerLogPanel.update(name, records);
+    }
+  };
+
+  const feedServerLog = (name: string, text: string) => {
+    const log = serverLogs.get(name);
+    if (log) {
+      ServerLogPanel.update(name, log.feed(text));
+    }
+  };
+
+  /**
+   * Collects the output of the server instances started in the debugger for their log and for
+   * the results of their tests.
+   */
+  const createServerLogTracker = (
+    session: vscode.DebugSession
+  ): vscode.DebugAdapterTracker | undefined => {
+    const name = session.configuration.odooDevInstance as string | undefined;
+    if (!name) {
+      return;
+    }
+    return {
+      onDidSendMessage: (message) => {
+        const category = message.body?.category;
+        if (message.event === "output" && (category === "stdout" || category === "stderr")) {
+          feedServerLog(name, message.body.output);
+          debugTestLogs.get(name)?.write(message.body.output);
         }
+      },
+    };
+  };
+
+  /**
+   * Runs the server instance `name` in its own terminal, the previous terminal of the instance is
+   * replaced. The output of the tests is captured so that the results can be reported when the
+   * server stops.
+   * Resolves when the process is started, or failed to start.
+   */
+  const startServerProcess = async (python: string, args: string[], name: string) => {
+    const port = getPortFromArgs(args) || (await getDefaultPort());
+    // In some odoo config files, the addons_path is set using relative paths.
+    const server = new ServerProcess(python, args, getOdooPath());
+    const instance: ServerInstance = {
+      name,
+      port,
+      debug: false,
+      startedAt: Date.now(),
+      process: server,
+    };
+
+    if (args.some((arg) => TEST_ARG_REGEX.test(arg))) {
+      const testLog = startTestLog();
+      server.onDidOutput((text) => testLog.write(text));
+      server.onDidStop(() => testLog.end());
+    }
+
+    const log = startServerLog(name);
+    server.onDidOutput((text) => feedServerLog(name, text));
+    server.onDidStart(() => {
+      serverInstances.add(instance);
+      openBrowserWhenReady(instance, args);
+    });
+    server.onDidBecomeReady(() => serverInstances.update());
+    server.onDidStop(() => {
+      // The instance might have been started again in the meantime.
+      if (serverInstances.get(name) === instance) {
+        serverInstances.remove(name);
       }
-    }, 2000);
+      endServerLog(name, log);
+    });
+
+    for (const terminal of vscode.window.terminals.filter((t) => t.name === name)) {
+      terminal.dispose();
+    }
+    const terminal = vscode.window.createTerminal({ name, pty: server });
+    terminal.show();
+    // The process is spawned when the terminal opens.
+    await new Promise<void>((resolve) => {
+      server.onDidStart(() => resolve());
+      server.onDidStop(() => resolve());
+    });
+  };
+
+  /**
+   * Starts the server of the active branch in a debug session.
+   */
+  const debugServer = async (args: string[], output: vscode.OutputChannel) => {
+    const name = getServerInstanceName();
+    const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
+      name,
+      type: "python",
+      request: "launch",
+      stopOnEntry: false,
+      console: "integratedTerminal",
+      cwd: getOdooPath(),
+      python: await getPythonPath(),
+      program: getOdooBinPath(),
+      variablePresentation: {
+        all: "hide",
+      },
+      args,
+      odooDevInstance: name,
+      // The output is also sent to the debug console, it's collected for the log of the server.
+      redirectOutput: true,
+    };
+    const port = getPortFromArgs(args) || (await getDefaultPort());
+    startServerLog(name);
+    endDebugTestLog(name);
+    if (args.some((arg) => TEST_ARG_REGEX.test(arg))) {
+      debugTestLogs.set(name, startTestLog());
+    }
+    if (await startDebugging(debugOdooPythonLaunchConfig, output)) {
+      const instance: ServerInstance = { name, port, debug: true, startedAt: Date.now() };
+      serverInstances.add(instance);
+      openBrowserWhenReady(instance, args);
+    } else {
+      endDebugTestLog(name);
+    }
+  };
+
+  /**
+   * Called when a debug session of a server instance terminates.
+   */
+  const onDidTerminateServerDebugSession = (session: vscode.DebugSession) => {
+    const name = session.configuration.odooDevInstance as string | undefined;
+    if (name && serverInstances.get(name)?.debug) {
+      serverInstances.remove(name);
+      endDebugTestLog(name);
+      const log = serverLogs.get(name);
+      if (log) {
+        endServerLog(name, log);
+      }
+    }
+  };
+
+  /**
+   * Stops the given server instance, in the terminal or in the debugger.
+   */
+  const stopServerInstance = async (name: string) => {
+    const instance = serverInstances.get(name);
+    if (instance?.debug) {
+      await ensureNoDebugSession(false, name);
+    } else {
+      await ensureNoActiveServer({ shouldConfirm: false, waitForKill: true, name });
+    }
   };
 
   const startServerWithInstall = async (selectedAddons: string[]) => {
@@ -1225,33 +2228,22 @@ export function createContextualUtils(
       ...otherArgs,
     ];
     const python = await getPythonPath();
-    const odooBin = `${getRepoPath(odevRepos.odoo)}/odoo-bin`;
-    sendStartServerCommand(`${python} ${odooBin} ${args.join(" ")}`, ODOO_SERVER_TERMINAL);
+    const odooBin = getOdooBinPath();
+    sendStartServerCommand(python, odooBin, args, getServerInstanceName());
   };
 
-  const debugServerWithInstall = async (selectedAddons: string[], output: vscode.OutputChannel) => {
-    const odooBin = `${getRepoPath(odevRepos.odoo)}/odoo-bin`;
+  const startServerWithUpdate = async (selectedAddons: string[]) => {
     const startServerArgs = await getStartServerArgs();
-    const args = [...startServerArgs, "-i", selectedAddons.join(",")];
+    const [d, dbname, ...otherArgs] = startServerArgs;
+    const args = [d, dbname, "-u", selectedAddons.join(","), ...otherArgs];
+    const python = await getPythonPath();
+    const odooBin = getOdooBinPath();
+    sendStartServerCommand(python, odooBin, args, getServerInstanceName());
+  };
 
-    const debugOdooPythonLaunchConfig: vscode.DebugConfiguration = {
-      name: DEBUG_PYTHON_NAME,
-      type: "python",
-      request: "launch",
-      stopOnEntry: false,
-      console: "integratedTerminal",
-      cwd: `${getRepoPath(odevRepos.odoo)}`,
-      python: await getPythonPath(),
-      program: odooBin,
-      variablePresentation: {
-        all: "hide",
-      },
-      args,
-    };
-    await startDebugging(debugOdooPythonLaunchConfig, output);
-    vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", true);
-    odooServerStatus.command = "odooDev.stopActiveServer";
-    odooServerStatus.text = "$(debug-stop) Stop Odoo Server";
+  const debugServerWithInstall = async (selectedAddons: string[], output: vscode.OutputChannel) => {
+    const startServerArgs = await getStartServerArgs();
+    await debugServer([...startServerArgs, "-i", selectedAddons.join(",")], output);
   };
 
   let githubSession: vscode.AuthenticationSession | undefined;
@@ -1270,25 +2262,11 @@ export function createContextualUtils(
     return githubSession.accessToken;
   };
 
-  function isDependentOn(addon: string, dependency: string): boolean {
-    const addonPath = `${addonsPathMap[addon]}`;
-    const requirements = getRequirements(addonPath);
-
-    if (!requirements) {
-      return false;
-    }
-
-    if (requirements.includes(dependency)) {
-      return true;
-    }
-
-    for (const req of requirements) {
-      if (isDependentOn(req, dependency)) {
-        return true;
-      }
-    }
-
-    return false;
+  /**
+   * Chains of `depends` from `addon` to `dependency`, there is none if `addon` doesn't depend on it.
+   */
+  function findDependencyPaths(addon: string, dependency: string) {
+    return getDependencyGraph().findDependencyPaths(addon, dependency);
   }
 
   function toQueryString(params: Record<string, string>): string {
@@ -1299,29 +2277,131 @@ export function createContextualUtils(
     return `?${parts.join("&")}`;
   }
 
-  const getServerUrl = async (queryParams?: Record<string, string>) => {
+  /**
+   * @param port defaults to the port of the server instance of the active branch
+   */
+  const getServerUrl = async (queryParams?: Record<string, string>, port?: number) => {
     const ip = await runShellCommand(
       `ifconfig en0 | grep "inet " | grep -v 127.0.0.1 | awk '{print $2}'`
     );
     const ipTrimmed = ip.trim();
     const host = ipTrimmed === "" ? "localhost" : ipTrimmed;
-    const port = (await getOdooConfigValue("http_port")) || "8069";
+    port = port || serverInstances.get(getServerInstanceName())?.port || (await getDefaultPort());
     return `http://${host}:${port}` + `${queryParams ? toQueryString(queryParams) : ""}`;
   };
 
+  /**
+   * @returns false if the user cancelled the wait
+   * @throws if the server stops during its startup
+   */
+  const waitForServer = (instance: ServerInstance) => {
+    const wait = withCancellableProgress({
+      message: `Waiting for ${instance.name} to be ready...`,
+      cb: (token) => serverInstances.waitUntilReady(instance.name, token),
+    });
+    return wait();
+  };
+
+  /**
+   * Url of the server instance once it's ready to accept requests.
+   * Without instance, e.g. the server is started outside of vscode, the port of the config should
+   * respond.
+   * @returns undefined if the user cancelled the wait
+   */
+  const getReadyServerUrl = async (
+    instance: ServerInstance | null,
+    queryParams?: Record<string, string>
+  ) => {
+    if (instance) {
+      if (!(await waitForServer(instance))) {
+        return;
+      }
+      return getServerUrl(queryParams, instance.port);
+    }
+    const port = await getDefaultPort();
+    if (!(await isPortOpen(port))) {
+      throw new Error("There is no running server, start one first.");
+    }
+    return getServerUrl(queryParams, port);
+  };
+
+  /**
+   * Opens the server in the browser when it's ready if `odooDev.openBrowserWhenReady` is set.
+   * Nothing to open when the server runs tests or stops after the initialization.
+   */
+  const openBrowserWhenReady = async (instance: ServerInstance, args: string[]) => {
+    const isNotServing = args.some(
+      (arg) => arg === "--stop-after-init" || arg.startsWith("--test-")
+    );
+    if (!isOpenBrowserWhenReady() || isNotServing) {
+      return;
+    }
+    try {
+      const url = await getReadyServerUrl(instance);
+      if (url) {
+        await openInBrowser(url);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage((error as Error).message);
+    }
+  };
+
+  /**
+   * Addons modified by the commits of the active dev branch, compared to its base branch.
+   */
+  const findChangedAddons = async (): Promise<ChangedAddon[]> => {
+    const branch = findActiveBranch();
+    const base = branch && getBase(branch);
+    if (!branch || !base || isBase(branch)) {
+      return [];
+    }
+    const repos: [string, Repository][] = [
+      ["odoo", odevRepos.odoo],
+      ...Object.entries(odevRepos.custom),
+    ];
+    const stats = await Promise.all(
+      repos.map(async ([name, repo]): Promise<[string, FileDiffStat[]]> => {
+        const workPath = getWorkPath(name, repo);
+        // Fails when the base branch doesn't exist in the repository.
+        const result = await tryRunShellCommand(`git diff --numstat --no-renames ${base}...HEAD`, {
+          cwd: workPath,
+        });
+        return [workPath, Result.check(result) ? parseNumstat(result.value) : []];
+      })
+    );
+    const installable = addonsIndex.getAddons().filter((addon) => addon.installable);
+    return getChangedAddons(stats, installable);
+  };
+
+  /**
+   * The addons changed by the active dev branch are selected and listed first.
+   */
   async function multiSelectAddons() {
-    const odooPath = `${getRepoPath(odevRepos.odoo)}/addons`;
-    const customAddonPaths = Object.values(odevRepos.custom).map((repo) => `${getRepoPath(repo)}`);
-    const odooAddons = await getAddons(odooPath);
-    const customAddons = (
-      await Promise.all(customAddonPaths.map((path) => getAddons(path)))
-    ).flat();
-    return vscode.window.showQuickPick([...odooAddons, ...customAddons], { canPickMany: true });
+    await addonsIndex.ready();
+    const changedAddons = await findChangedAddons();
+    const changedNames = changedAddons.map((addon) => addon.name);
+    const items: vscode.QuickPickItem[] = [];
+    if (changedAddons.length > 0) {
+      items.push({ label: "Changed in the branch", kind: vscode.QuickPickItemKind.Separator });
+      for (const { name, repo, files, added, deleted } of changedAddons) {
+        const description = `${repo} · ${files} file${
+          files === 1 ? "" : "s"
+        }, +${added} -${deleted}`;
+        items.push({ label: name, description, picked: true });
+      }
+      items.push({ label: "Other addons", kind: vscode.QuickPickItemKind.Separator });
+    }
+    for (const name of addonsIndex.getNames().filter((name) => !changedNames.includes(name))) {
+      items.push({ label: name, description: addonsIndex.get(name)?.repo });
+    }
+    const selected = await vscode.window.showQuickPick(items, { canPickMany: true });
+    return selected?.map((item) => item.label);
   }
 
   function selectDevBranch() {
-    const devBranches = getBaseBranches()
-      .map((base) => getDevBranches(base).map((b) => b.name))
+    const devBranches = branchStore
+      .getBaseBranches()
+      .map((base) => branchStore.getDevBranches(base).map((b) => b.name))
       .flat();
 
     return vscode.window.showQuickPick(devBranches, { title: "Choose a branch" });
@@ -1415,37 +2495,76 @@ export function createContextualUtils(
   return {
     treeDataProvider,
     odooAddonsTreeProvider,
+    odooDatabasesTreeProvider,
+    branchStore,
     getConfigFilePath,
     getOdooDevTerminal,
     getOdooShellCommandArgs,
     getPythonPath,
     getStartServerArgs,
+    serverInstances,
+    serverLogs,
+    createServerLogTracker,
+    getServerInstanceName,
+    getDefaultPort,
+    updateServerStatus,
+    debugServer,
+    onDidTerminateServerDebugSession,
+    stopServerInstance,
+    getActiveServerProfile,
+    setActiveServerProfile,
+    updateServerProfileStatus,
     sendStartServerCommand,
     startServerWithInstall,
+    startServerWithUpdate,
     debugServerWithInstall,
+    getDependencyGraph,
     getDBName,
-    fetchBranches: refreshTrees(fetchBranches),
-    fetchStableBranches: refreshTrees(fetchStableBranches),
-    createBranches: refreshTrees(createBranches),
-    fetchOrCreateBranches: refreshTrees(fetchOrCreateBranches),
-    checkoutBranches: refreshTrees(checkoutBranches),
+    getDataDir,
+    dbSnapshots,
+    restoreSnapshot,
+    configOverrides,
+    getConfigOverrides,
+    getConfigFileOptions,
+    fetchBranches: refreshTrees(withSnapshotOnSwitch(fetchBranches, (_base, branch) => branch)),
+    fetchStableBranches: refreshTrees(withSnapshotOnSwitch(fetchStableBranches, (name) => name)),
+    createBranches: refreshTrees(withSnapshotOnSwitch(createBranches, (_base, branch) => branch)),
+    fetchOrCreateBranches: refreshTrees(
+      withSnapshotOnSwitch(fetchOrCreateBranches, (_base, branch) => branch)
+    ),
+    checkoutBranches: refreshTrees(withSnapshotOnSwitch(checkoutBranches, (branch) => branch)),
     deleteBranches: refreshTrees(deleteBranches),
     rebaseBranches: refreshTrees(rebaseBranches),
     resetBranches,
     getTestTag,
+    clearTestDiagnostics,
+    reportTestResults,
+    getLastFailedTestTags,
     ensureNoActiveServer,
     ensureNoDebugSession,
     ensureNoRunningServer,
     getDirtyRepoNames,
+    getDirtyRepoNamesBeforeSwitch,
     getDirtyRepos,
     odooServerStatus,
     getGithubAccessToken,
-    isDependentOn,
-    addonsPathMap,
+    findDependencyPaths,
+    addonsIndex,
     getServerUrl,
+    getReadyServerUrl,
     getRepoPath,
+    getNamedRepos,
+    getWorkPath,
+    getOdooPath,
+    getOdooBinPath,
+    getAddonsPaths,
+    getAddonsRoots,
+    getActiveWorktree,
+    getDirtyWorktreeNames,
     multiSelectAddons,
+    findChangedAddons,
     refreshTrees,
+    onDidRefreshTrees,
     odevRepos,
     getActiveBranch,
     selectDevBranch,
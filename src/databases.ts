@@ -0,0 +1,96 @@
+// Wrappers of the postgres command line tools.
+// Connection parameters are taken from the environment (e.g. PGHOST, PGUSER), just like `dropdb` when
+// starting a fresh server.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LINE_BREAK_REGEX } from "./constants";
+import { runShellCommand } from "./helpers";
+
+const quote = (name: string) => `"${name.replace(/(["\\$`])/g, "\\$1")}"`;
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export async function listDatabases(): Promise<string[]> {
+  const output = await runShellCommand(
+    `psql -d postgres -Atc "SELECT datname FROM pg_database WHERE NOT datistemplate AND datname <> 'postgres' ORDER BY datname"`
+  );
+  return output.trim().split(LINE_BREAK_REGEX).filter(Boolean);
+}
+
+export async function databaseExists(name: string): Promise<boolean> {
+  return (await listDatabases()).includes(name);
+}
+
+export async function createDatabase(name: string) {
+  await runShellCommand(`createdb ${quote(name)}`);
+}
+
+export async function duplicateDatabase(source: string, target: string) {
+  await runShellCommand(`createdb -T ${quote(source)} ${quote(target)}`);
+}
+
+export async function dropDatabase(name: string) {
+  await runShellCommand(`dropdb ${quote(name)}`);
+}
+
+export async function renameDatabase(name: string, newName: string) {
+  const query = `ALTER DATABASE ${quoteIdentifier(name)} RENAME TO ${quoteIdentifier(newName)}`;
+  await runShellCommand(`psql -d postgres -c ${quote(query)}`);
+}
+
+export async function dumpDatabase(name: string, filePath: string) {
+  await runShellCommand(`pg_dump -Fc -f ${quote(filePath)} ${quote(name)}`);
+}
+
+/**
+ * Restores the dump at `filePath` to a new database named `name`.
+ * Plain sql dumps are restored with `psql`, otherwise, `pg_restore` is used.
+ * The database is dropped if the restore fails, so that it can be retried.
+ */
+export async function restoreDatabase(name: string, filePath: string) {
+  await runShellCommand(`createdb ${quote(name)}`);
+  try {
+    if (filePath.endsWith(".sql")) {
+      await runShellCommand(`psql -q -d ${quote(name)} -f ${quote(filePath)}`);
+    } else {
+      await runShellCommand(`pg_restore --no-owner -d ${quote(name)} ${quote(filePath)}`);
+    }
+  } catch (error) {
+    await dropDatabase(name);
+    throw error;
+  }
+}
+
+export function getDefaultDataDir() {
+  if (process.platform === "darwin") {
+    return path.join(os.homedir(), "Library", "Application Support", "Odoo");
+  }
+  return path.join(os.homedir(), ".local", "share", "Odoo");
+}
+
+/**
+ * Just like odoo's database manager, the filestore follows the database.
+ * These are no-op when the database has no filestore.
+ */
+export const filestore = {
+  getPath(dataDir: string, name: string) {
+    return path.join(dataDir, "filestore", name);
+  },
+  async copy(dataDir: string, source: string, target: string) {
+    const sourcePath = this.getPath(dataDir, source);
+    if (fs.existsSync(sourcePath)) {
+      await runShellCommand(`cp -R ${quote(sourcePath)} ${quote(this.getPath(dataDir, target))}`);
+    }
+  },
+  async rename(dataDir: string, name: string, newName: string) {
+    const sourcePath = this.getPath(dataDir, name);
+    if (fs.existsSync(sourcePath)) {
+      await fs.promises.rename(sourcePath, this.getPath(dataDir, newName));
+    }
+  },
+  async remove(dataDir: string, name: string) {
+    await fs.promises.rm(this.getPath(dataDir, name), { recursive: true, force: true });
+  },
+};
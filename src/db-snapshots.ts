@@ -0,0 +1,86 @@
+import { ExtensionContext } from "vscode";
+
+export type DBSnapshot = {
+  /**
+   * Name of the database that holds the snapshot.
+   */
+  name: string;
+  /**
+   * Name of the database that was copied.
+   */
+  source: string;
+  createdAt: number;
+};
+
+const SUFFIX_LENGTH = "-snap-YYYYMMDDHHmmss".length;
+
+/**
+ * Name of the snapshot of `dbName`, it fits the 63 characters limit of postgres.
+ */
+export const getSnapshotName = (dbName: string, date: Date) => {
+  const timestamp = date
+    .toISOString()
+    .replace(/[^0-9]/g, "")
+    .slice(0, 14);
+  return `${dbName.slice(0, 63 - SUFFIX_LENGTH)}-snap-${timestamp}`;
+};
+
+/**
+ * Keeps track of the database snapshots taken before leaving a branch.
+ * Snapshots are listed from the oldest to the newest.
+ */
+export const init = (globalState: ExtensionContext["globalState"]) => {
+  const snapshots: Record<string, DBSnapshot[]> =
+    globalState.get<Record<string, DBSnapshot[]>>("odooDev.dbSnapshots") || {};
+
+  const get = (branch: string) => {
+    return snapshots[branch] || [];
+  };
+
+  const push = (branch: string, snapshot: DBSnapshot) => {
+    snapshots[branch] = [...get(branch), snapshot];
+  };
+
+  /**
+   * Removes the oldest snapshots of the branch so that only `retention` are left.
+   * @returns the removed snapshots
+   */
+  const trim = (branch: string, retention: number) => {
+    const items = get(branch);
+    const removed = items.slice(0, Math.max(items.length - retention, 0));
+    snapshots[branch] = items.slice(removed.length);
+    return removed;
+  };
+
+  /**
+   * Removes the snapshots of the branches that are not in `branchesToKeep`.
+   * @returns the removed snapshots
+   */
+  const prune = (branchesToKeep: string[]) => {
+    const removed: DBSnapshot[] = [];
+    for (const branch of Object.keys(snapshots)) {
+      if (!branchesToKeep.includes(branch) || snapshots[branch].length === 0) {
+        removed.push(...snapshots[branch]);
+        delete snapshots[branch];
+      }
+    }
+    return removed;
+  };
+
+  const remove = (branch: string, snapshotName: string) => {
+    snapshots[branch] = get(branch).filter((s) => s.name !== snapshotName);
+  };
+
+  const flush = () => {
+    return globalState.update("odooDev.dbSnapshots", snapshots);
+  };
+
+  return {
+    get,
+    push,
+    trim,
+    prune,
+    remove,
+    flush,
+  };
+};
@@ -21,3 +21,27 @@ export function withProgress<A extends any[], R extends Promise<any>>(arg: {
     );
   };
 }
+
+/**
+ * Same as `withProgress` but the user can cancel, `cb` is given the cancellation token.
+ */
+export function withCancellableProgress<A extends any[], R extends Promise<any>>(arg: {
+  message: string;
+  cb: (token: vscode.CancellationToken, ...args: A) => R;
+}) {
+  return (...args: A): Promise<Awaited<R>> => {
+    return new Promise((resolve, reject) =>
+      vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          progress.report({ message: arg.message });
+          const result = await Result.try_(arg.cb, token, ...args);
+          Result.process(result, resolve, reject);
+        }
+      )
+    );
+  };
+}
@@ -0,0 +1,265 @@
+// Graph of the dependencies between the addons, in both directions.
+
+export type DependentInfo = {
+  addon: string;
+  /**
+   * Length of the shortest chain of `depends` from the dependent to the addon, direct dependents
+   * have a depth of 1.
+   */
+  depth: number;
+};
+
+export type DependencyPaths = {
+  /**
+   * Each path starts with the dependent addon and ends with the dependency, e.g.
+   * `["pos_restaurant", "point_of_sale", "account", "base"]`.
+   */
+  paths: string[][];
+  /**
+   * Cycles met during the walk, e.g. `["a", "b", "a"]`.
+   */
+  cycles: string[][];
+};
+
+export class DependencyGraph {
+  private dependents = new Map<string, string[]>();
+
+  /**
+   * @param dependencies the `depends` of each addon
+   */
+  constructor(private dependencies: Record<string, string[]>) {
+    for (const [addon, depends] of Object.entries(dependencies)) {
+      for (const dependency of depends) {
+        this.dependents.set(dependency, [...this.getDependents(dependency), addon]);
+      }
+    }
+    for (const addons of this.dependents.values()) {
+      addons.sort();
+    }
+  }
+
+  getAddons() {
+    return Object.keys(this.dependencies);
+  }
+
+  getDependencies(addon: string): string[] {
+    return this.dependencies[addon] || [];
+  }
+
+  /**
+   * The given addons and all the addons they depend on, sorted by name.
+   */
+  getTransitiveDependencies(addons: string[]): string[] {
+    const visited = new Set<string>();
+    const stack = [...addons];
+    while (stack.length > 0) {
+      const addon = stack.pop() as string;
+      if (!visited.has(addon)) {
+        visited.add(addon);
+        stack.push(...this.getDependencies(addon));
+      }
+    }
+    return [...visited].sort();
+  }
+
+  /**
+   * Addons that directly depend on `addon`.
+   */
+  getDependents(addon: string): string[] {
+    return this.dependents.get(addon) || [];
+  }
+
+  /**
+   * All the addons that depend on `addon`, ordered by depth then by name.
+   * @param maxDepth only the dependents up to this depth are returned
+   */
+  getTransitiveDependents(addon: string, maxDepth = Infinity): DependentInfo[] {
+    const result: DependentInfo[] = [];
+    const visited = new Set([addon]);
+    let current = [addon];
+    for (let depth = 1; depth <= maxDepth && current.length > 0; depth++) {
+      const next = new Set<string>();
+      for (const name of current) {
+        for (const dependent of this.getDependents(name)) {
+          if (!visited.has(dependent)) {
+            visited.add(dependent);
+            next.add(dependent);
+          }
+        }
+      }
+      current = [...next].sort();
+      result.push(...current.map((name) => ({ addon: name, depth })));
+    }
+    return result;
+  }
+
+  /**
+   * Every chain of `depends` that leads from `addon` to `dependency`, shortest first.
+   * - The chains are extended in the order of the length of the shortest path they can lead to,
+   *   using the distance of each addon to `dependency`. The addons that don't lead to it are
+   *   skipped.
+   * - An addon already in the chain is a cycle, it's reported instead of followed.
+   * @param maxPaths the number of paths grows quickly for the low-level addons, e.g. `base`
+   */
+  findDependencyPaths(addon: string, dependency: string, maxPaths = 50): DependencyPaths {
+    const distances = new Map([[dependency, 0]]);
+    for (const { addon: dependent, depth } of this.getTransitiveDependents(dependency)) {
+      distances.set(dependent, depth);
+    }
+    const paths: string[][] = [];
+    const cycles = new Map<string, string[]>();
+    if (addon === dependency || !distances.has(addon)) {
+      return { paths, cycles: [] };
+    }
+
+    const getMinLength = (chain: string[]) =>
+      chain.length + (distances.get(chain[chain.length - 1]) as number);
+    const chains = [[addon]];
+    while (chains.length > 0 && paths.length < maxPaths) {
+      // The first of the shortest, so that the paths of the same length keep the order of the
+      // `depends`.
+      let next = 0;
+      for (let i = 1; i < chains.length; i++) {
+        if (getMinLength(chains[i]) < getMinLength(chains[next])) {
+          next = i;
+        }
+      }
+      const [chain] = chains.splice(next, 1);
+      const last = chain[chain.length - 1];
+      if (last === dependency) {
+        paths.push(chain);
+        continue;
+      }
+      for (const requirement of this.getDependencies(last)) {
+        const index = chain.indexOf(requirement);
+        if (index !== -1) {
+          const cycle = [...chain.slice(index), requirement];
+          // The same cycle can be entered from any of its addons.
+          const key = cycle.slice(1).sort().join(",");
+          if (!cycles.has(key)) {
+            cycles.set(key, cycle);
+          }
+        } else if (distances.has(requirement)) {
+          chains.push([...chain, requirement]);
+        }
+      }
+    }
+    return { paths, cycles: [...cycles.values()] };
+  }
+}
+
+export type GraphNode = {
+  addon: string;
+  layer: number;
+  /**
+   * Top-left corner of the node.
+   */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type GraphLayout = {
+  nodes: GraphNode[];
+  /**
+   * Pairs of `[dependent, dependency]`.
+   */
+  edges: [string, string][];
+  width: number;
+  height: number;
+};
+
+const LAYOUT_OPTIONS = {
+  nodeHeight: 28,
+  nodeGap: 16,
+  layerGap: 72,
+  charWidth: 7,
+  padding: 12,
+};
+
+/**
+ * Layered layout of the sub-graph of `addons`, the dependencies are below their dependents.
+ * - An addon is one layer above its highest dependency, the ones without dependencies are at the
+ *   bottom.
+ * - In each layer, the addons are ordered by the mean position of their dependencies to limit the
+ *   crossings of the edges.
+ */
+export function layoutDependencyGraph(graph: DependencyGraph, addons: string[]): GraphLayout {
+  const { nodeHeight, nodeGap, layerGap, charWidth, padding } = LAYOUT_OPTIONS;
+  const included = new Set(addons);
+  const getDependencies = (addon: string) =>
+    graph.getDependencies(addon).filter((dependency) => included.has(dependency));
+
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const getLayer = (addon: string): number => {
+    const known = layers.get(addon);
+    if (known !== undefined) {
+      return known;
+    }
+    visiting.add(addon);
+    let layer = 0;
+    for (const dependency of getDependencies(addon)) {
+      // Ignore the edges that close a cycle.
+      if (!visiting.has(dependency)) {
+        layer = Math.max(layer, getLayer(dependency) + 1);
+      }
+    }
+    visiting.delete(addon);
+    layers.set(addon, layer);
+    return layer;
+  };
+
+  const rows: string[][] = [];
+  for (const addon of [...included].sort()) {
+    const layer = getLayer(addon);
+    rows[layer] = [...(rows[layer] || []), addon];
+  }
+
+  const nodes = new Map<string, GraphNode>();
+  const getCenter = (addon: string) => {
+    const node = nodes.get(addon);
+    return node ? node.x + node.width / 2 : 0;
+  };
+  const maxLayer = rows.length - 1;
+  for (const [layer, row] of rows.entries()) {
+    const barycenters = new Map<string, number>();
+    for (const addon of row) {
+      const dependencies = getDependencies(addon).filter((d) => nodes.has(d));
+      const sum = dependencies.reduce((acc, d) => acc + getCenter(d), 0);
+      barycenters.set(addon, dependencies.length > 0 ? sum / dependencies.length : 0);
+    }
+    if (layer > 0) {
+      row.sort((a, b) => (barycenters.get(a) as number) - (barycenters.get(b) as number));
+    }
+    const widths = row.map((addon) => addon.length * charWidth + 2 * padding);
+    const rowWidth = widths.reduce((acc, w) => acc + w, 0) + nodeGap * (row.length - 1);
+    // Rows are centered around 0, everything is shifted to positive coordinates at the end.
+    let x = -rowWidth / 2;
+    for (const [i, addon] of row.entries()) {
+      const y = (maxLayer - layer) * (nodeHeight + layerGap);
+      nodes.set(addon, { addon, layer, x, y, width: widths[i], height: nodeHeight });
+      x += widths[i] + nodeGap;
+    }
+  }
+
+  const minX = Math.min(...[...nodes.values()].map((node) => node.x));
+  const maxX = Math.max(...[...nodes.values()].map((node) => node.x + node.width));
+  for (const node of nodes.values()) {
+    node.x -= minX;
+  }
+
+  const edges: [string, string][] = [];
+  for (const addon of included) {
+    for (const dependency of getDependencies(addon)) {
+      edges.push([addon, dependency]);
+    }
+  }
+  return {
+    nodes: [...nodes.values()],
+    edges,
+    width: nodes.size > 0 ? maxX - minX : 0,
+    height: rows.length * nodeHeight + Math.max(rows.length - 1, 0) * layerGap,
+  };
+}
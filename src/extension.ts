@@ -4,17 +4,18 @@ import * as vscode from "vscode";
 import * as Result from "./Result";
 import { ContextualUtils, createContextualUtils } from "./contextualUtils";
 import * as commands from "./commands";
-import { DEBUG_PYTHON_NAME } from "./constants";
 import {
   constructOdooDevRepositories,
-  getAddons,
   getRepoName,
   getWithDemoDataStatusText,
+  getServerProfileStatusText,
   updateOdooDevRepositories,
 } from "./helpers";
-import { getDebugSessions, initBaseBranches, initDevBranches } from "./state";
+import { getDebugSessions } from "./state";
 import { IExtensionApi } from "./dependencies/python/apiTypes";
 import { GitExtension, Repository } from "./dependencies/git";
+import { isInWorktreesRoot } from "./worktrees";
+import { OdooTestController } from "./odoo_tests";
 
 const gitExtension = vscode.extensions.getExtension<GitExtension>("vscode.git")!.exports;
 const git = gitExtension.getAPI(1);
@@ -38,10 +39,9 @@ const ALIASES: Record<string, string[]> = {
   "odooDev.gotoTestMethod": ["odooDev.findTestMethod"],
 };
 
-let addonsPathMap: Record<string, string> = {};
-
 let odooServerStatus: vscode.StatusBarItem;
 let withDemoDataStatus: vscode.StatusBarItem;
+let serverProfileStatus: vscode.StatusBarItem;
 
 const currentBranches: Record<string, string | undefined> = {};
 const repoSubscriptions: Record<string, vscode.Disposable> = {};
@@ -50,6 +50,10 @@ const refreshTreesOnRepoChange = (repo: Repository, utils: ContextualUtils) => {
   const repoName = getRepoName(repo);
   currentBranches[repoName] = repo.state.HEAD?.name;
   const disposable = repo.state.onDidChange(() => {
+    // Branches might be created or deleted outside of the extension, e.g. from the terminal.
+    utils.branchStore.scheduleScan();
+    // The addons might have changed, e.g. after a pull.
+    utils.addonsIndex.scheduleLoad();
     const newBranch = repo.state.HEAD?.name;
     if (currentBranches[repoName] !== newBranch) {
       currentBranches[repoName] = newBranch;
@@ -92,7 +96,14 @@ export async function activate(context: vscode.ExtensionContext) {
     return repo.rootUri.fsPath;
   };
 
-  const odevReposRes = Result.try_(constructOdooDevRepositories, git.repositories);
+  // Worktrees of the worktree sets are also opened by git when their files are opened.
+  // They shouldn't be mistaken as the main repositories.
+  const isMainRepo = (repo: Repository) => !isInWorktreesRoot(repo.rootUri.fsPath);
+
+  const odevReposRes = Result.try_(
+    constructOdooDevRepositories,
+    git.repositories.filter(isMainRepo)
+  );
 
   if (!Result.check(odevReposRes)) {
     vscode.commands.executeCommand("setContext", "odooDev.state", "failed");
@@ -111,30 +122,21 @@ export async function activate(context: vscode.ExtensionContext) {
   withDemoDataStatus.text = getWithDemoDataStatusText(withDemoData);
   withDemoDataStatus.show();
 
+  serverProfileStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+  serverProfileStatus.command = "odooDev.selectServerProfile";
+  serverProfileStatus.text = getServerProfileStatusText(undefined);
+  serverProfileStatus.show();
+
   const odevRepos = odevReposRes.value;
-  if (odevRepos.odoo) {
-    const odooAddonsPath = `${getRepoPath(odevRepos.odoo)}/addons`;
-    for (const addon of await getAddons(odooAddonsPath)) {
-      addonsPathMap[addon] = `${odooAddonsPath}/${addon}`;
-    }
-    try {
-      for (const repo of Object.values(odevRepos.custom)) {
-        const customAddonsPath = getRepoPath(repo);
-        for (const addon of await getAddons(customAddonsPath)) {
-          addonsPathMap[addon] = `${customAddonsPath}/${addon}`;
-        }
-      }
-    } catch (error) {}
-    addonsPathMap["base"] = `${getRepoPath(odevRepos.odoo)}/odoo/addons/base`;
-  } else {
+  if (!odevRepos.odoo) {
     vscode.commands.executeCommand("setContext", "odooDev.state", "failed");
     return;
   }
 
   const utils = createContextualUtils(context, {
     withDemoDataStatus,
+    serverProfileStatus,
     odooServerStatus,
-    addonsPathMap,
     getPythonPath,
     getRepoPath,
     odevRepos,
@@ -142,11 +144,7 @@ export async function activate(context: vscode.ExtensionContext) {
   const debugSessions = getDebugSessions();
 
   vscode.debug.onDidTerminateDebugSession((session) => {
-    if (session.name === DEBUG_PYTHON_NAME) {
-      vscode.commands.executeCommand("setContext", "odooDev.hasActiveServer", false);
-      odooServerStatus.command = "odooDev.startServer";
-      odooServerStatus.text = "$(debug-start) Start Odoo Server";
-    }
+    utils.onDidTerminateServerDebugSession(session);
     debugSessions.splice(debugSessions.indexOf(session), 1);
   });
 
@@ -154,11 +152,21 @@ export async function activate(context: vscode.ExtensionContext) {
     debugSessions.push(session);
   });
 
-  await initBaseBranches(utils);
-  await initDevBranches(utils);
+  context.subscriptions.push(
+    vscode.debug.registerDebugAdapterTrackerFactory("python", {
+      createDebugAdapterTracker: (session) => utils.createServerLogTracker(session),
+    })
+  );
+
+  await utils.branchStore.scan();
 
   vscode.window.registerTreeDataProvider("odoo-dev-branches", utils.treeDataProvider);
   vscode.window.registerTreeDataProvider("odoo-addons-tree", utils.odooAddonsTreeProvider);
+  vscode.window.registerTreeDataProvider("odoo-databases", utils.odooDatabasesTreeProvider);
+  context.subscriptions.push(new OdooTestController(utils));
+  context.subscriptions.push(utils.addonsIndex);
+  // The index is built in the background, the views and the commands wait for it.
+  utils.addonsIndex.load();
 
   const disposables = Object.values(commands).map((command) => {
     const { name, method } = command(utils);
@@ -176,14 +184,21 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 
   context.subscriptions.push(odooServerStatus);
+  context.subscriptions.push(serverProfileStatus);
+  context.subscriptions.push(utils.serverInstances);
+  utils.updateServerProfileStatus();
   context.subscriptions.push(
     // When a new repository is added, we need to update the repositories list.
     git.onDidOpenRepository(
       utils.refreshTrees((repo) => {
+        if (!isMainRepo(repo)) {
+          return;
+        }
         const repoName = getRepoName(repo);
         repositories[repoName] = repo;
         updateOdooDevRepositories(odevRepos, [repo]);
         refreshTreesOnRepoChange(repo, utils);
+        utils.branchStore.scheduleScan();
       })
     )
   );
@@ -192,18 +207,60 @@ export async function activate(context: vscode.ExtensionContext) {
     // When a repository is removed, we need to update the repositories list.
     git.onDidCloseRepository(
       utils.refreshTrees((repo) => {
+        if (!isMainRepo(repo)) {
+          return;
+        }
         const repoName = getRepoName(repo);
         delete repositories[repoName];
         updateOdooDevRepositories(odevRepos, [repo], true);
         stopRefreshTreesOnRepoChange(repo);
+        utils.branchStore.scheduleScan();
       })
     )
   );
 
-  for (const repo of git.repositories) {
+  for (const repo of git.repositories.filter(isMainRepo)) {
     refreshTreesOnRepoChange(repo, utils);
   }
 
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("odooDev.useWorktrees") ||
+        event.affectsConfiguration("odooDev.worktreesRoot")
+      ) {
+        utils.treeDataProvider.refresh();
+      }
+      if (
+        event.affectsConfiguration("odooDev.useWorktrees") ||
+        event.affectsConfiguration("odooDev.worktreesRoot") ||
+        event.affectsConfiguration("odooDev.odooConfigPath") ||
+        event.affectsConfiguration("odooDev.extraAddonsPaths") ||
+        event.affectsConfiguration("odooDev.manageAddonsPath")
+      ) {
+        utils.addonsIndex.load();
+      }
+      if (event.affectsConfiguration("odooDev.multipleServers")) {
+        utils.serverInstances.update();
+      }
+      if (event.affectsConfiguration("odooDev.serverProfiles")) {
+        utils.updateServerProfileStatus();
+      }
+      if (event.affectsConfiguration("odooDev.communityRepoName")) {
+        vscode.window
+          .showInformationMessage(
+            "Reload the window to use the new community repository.",
+            "Reload Window"
+          )
+          .then((choice) => {
+            if (choice === "Reload Window") {
+              vscode.commands.executeCommand("workbench.action.reloadWindow");
+            }
+          });
+      }
+    })
+  );
+
   vscode.commands.executeCommand("setContext", "odooDev.state", "activated");
 }
 
@@ -2,10 +2,9 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import * as child_process from "child_process";
-import * as psTree from "ps-tree";
 import * as Result from "./Result";
 import { Repository } from "./dependencies/git";
-import { BASE_BRANCH_REGEX, DEV_BRANCH_REGEX, REQUIREMENTS_REGEX } from "./constants";
+import { BASE_BRANCH_REGEX, DEV_BRANCH_REGEX, LINE_BREAK_REGEX } from "./constants";
 
 export function getFoldersInDirectory(directoryPath: string) {
   const filesAndDirs = fs.readdirSync(directoryPath);
@@ -43,6 +42,25 @@ export function runShellCommand(
 
 export const tryRunShellCommand = Result.resultify(runShellCommand);
 
+/**
+ * Runs `file` without shell, the arguments are passed as they are, e.g. names typed by the user.
+ */
+export function runCommand(
+  file: string,
+  args: string[],
+  options: child_process.ExecFileOptions = {}
+): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    child_process.execFile(file, args, options, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(stderr.toString() || err.message));
+      } else {
+        resolve(stdout.toString());
+      }
+    });
+  });
+}
+
 export function isValidDirectory(path: string): boolean {
   try {
     const stat = fs.statSync(path);
@@ -77,75 +95,6 @@ Use this note file to track things related to this branch, e.g. tasks list.
   fs.closeSync(fd);
 }
 
-export function getChildProcs(pid: number): Promise<readonly psTree.PS[]> {
-  return new Promise((resolve, reject) => {
-    // Get the list of child processes of the current process ID
-    psTree(pid, (err, children) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      resolve(children);
-    });
-  });
-}
-
-export function isOdooServer(pid: number): Promise<boolean> {
-  return new Promise((resolve, reject) => {
-    child_process.exec(
-      `ps -o command -p ${pid} | grep odoo-bin | head -1`,
-      (err, stdout, _stderr) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        resolve(stdout.toString() !== "");
-      }
-    );
-  });
-}
-
-export async function killOdooServer(pid: number): Promise<void> {
-  const children = await getChildProcs(pid);
-  if (children.length === 0) {
-    return;
-  } else {
-    try {
-      for (const child of children) {
-        const pid = parseInt(child.PID);
-        const isOdoo = await isOdooServer(pid);
-        if (isOdoo) {
-          process.kill(pid, "SIGINT");
-        }
-      }
-    } catch (error) {}
-  }
-  let timeout: NodeJS.Timeout;
-  return new Promise((resolve, reject) => {
-    const retry = async () => {
-      try {
-        const children = await getChildProcs(pid);
-        if (children.length === 0) {
-          clearTimeout(timeout);
-          resolve();
-        } else {
-          for (const child of children) {
-            const pid = parseInt(child.PID);
-            const isOdoo = await isOdooServer(pid);
-            if (isOdoo) {
-              process.kill(pid, "SIGINT");
-            }
-          }
-          timeout = setTimeout(retry, 200);
-        }
-      } catch (e) {
-        reject(e);
-      }
-    };
-    retry();
-  });
-}
-
 export function isAddon(path: string): Promise<boolean> {
   return new Promise((resolve, reject) => {
     try {
@@ -178,10 +127,6 @@ export async function getAddons(path: string): Promise<string[]> {
   return addons;
 }
 
-export function removeComments(content: string): string {
-  return content.replace(/#[^\n]*\n/g, "");
-}
-
 async function isAvailableFromRemote(
   repo: Repository,
   remote: string,
@@ -240,6 +185,99 @@ export async function getRemoteOfBase(repo: Repository, branch: string) {
   }
 }
 
+export type AheadBehind = { ahead: number; behind: number };
+
+export type BranchRepoStatus = {
+  exists: boolean;
+  /**
+   * Remotes where the branch is available, based on the fetched remote refs.
+   */
+  remotes: string[];
+  upstream?: string;
+  upstreamDiff?: AheadBehind;
+  baseDiff?: AheadBehind;
+  /**
+   * Only known when the branch is checked out.
+   */
+  dirty?: boolean;
+};
+
+async function getAheadBehind(
+  repoPath: string,
+  ref: string,
+  otherRef: string
+): Promise<AheadBehind | undefined> {
+  const result = await tryRunShellCommand(
+    `git rev-list --left-right --count ${ref}...${otherRef}`,
+    { cwd: repoPath }
+  );
+  if (!Result.check(result)) {
+    return undefined;
+  }
+  const [ahead, behind] = result.value
+    .trim()
+    .split(/\s+/)
+    .map((n) => parseInt(n));
+  return { ahead, behind };
+}
+
+/**
+ * Status of the `branch` in the repo located at `repoPath`.
+ * @param repoPath
+ * @param branch
+ * @param base
+ * @param checkoutPath location where the branch is checked out, if it is.
+ */
+export async function getBranchRepoStatus(
+  repoPath: string,
+  branch: string,
+  base: string,
+  checkoutPath?: string
+): Promise<BranchRepoStatus> {
+  const remoteRefs = await runShellCommand(
+    `git for-each-ref --format='%(refname:short)' 'refs/remotes/*/${branch}'`,
+    { cwd: repoPath }
+  );
+  const remotes = remoteRefs
+    .trim()
+    .split(LINE_BREAK_REGEX)
+    .filter(Boolean)
+    .map((ref) => ref.slice(0, -(branch.length + 1)));
+
+  const existsRes = await tryRunShellCommand(
+    `git rev-parse --verify --quiet refs/heads/${branch}`,
+    { cwd: repoPath }
+  );
+  if (!Result.check(existsRes)) {
+    return { exists: false, remotes };
+  }
+
+  const upstream = (
+    await runShellCommand(`git for-each-ref --format='%(upstream:short)' refs/heads/${branch}`, {
+      cwd: repoPath,
+    })
+  ).trim();
+
+  const [upstreamDiff, baseDiff, dirty] = await Promise.all([
+    upstream ? getAheadBehind(repoPath, branch, upstream) : Promise.resolve(undefined),
+    getAheadBehind(repoPath, branch, base),
+    checkoutPath
+      ? runShellCommand("git status --porcelain", { cwd: checkoutPath }).then(
+          (status) => status.trim().length > 0
+        )
+      : Promise.resolve(undefined),
+  ]);
+
+  return {
+    exists: true,
+    remotes,
+    upstream: upstream || undefined,
+    upstreamDiff,
+    baseDiff,
+    dirty,
+  };
+}
+
 export const getRepoName = (repo: Repository) => {
   return repo.rootUri.path.split("/").pop()!;
 };
@@ -250,10 +288,18 @@ export type OdooDevRepositories = {
   custom: Record<string, Repository>;
 };
 
+/**
+ * Name of the folder of the community repository, see the `Community Repo Name` setting.
+ */
+export const getCommunityRepoName = () => {
+  return (vscode.workspace.getConfiguration("odooDev").communityRepoName as string) || "odoo";
+};
+
 export const constructOdooDevRepositories = (repositories: Repository[]): OdooDevRepositories => {
-  const odooRepo = repositories.find((repo) => repo.rootUri.path.endsWith("/odoo"));
+  const communityRepoName = getCommunityRepoName();
+  const odooRepo = repositories.find((repo) => getRepoName(repo) === communityRepoName);
   if (!odooRepo) {
-    throw new Error("Odoo repo not found");
+    throw new Error(`Odoo repo '${communityRepoName}' not found`);
   }
   const odevRepos: OdooDevRepositories = {
     odoo: odooRepo,
@@ -261,7 +307,7 @@ export const constructOdooDevRepositories = (repositories: Repository[]): OdooDe
   };
   for (const repo of repositories) {
     const repoName = getRepoName(repo);
-    if (repoName === "odoo") {
+    if (repoName === communityRepoName) {
       continue;
     }
     if (repoName === "upgrade") {
@@ -280,7 +326,9 @@ export const updateOdooDevRepositories = (
 ) => {
   for (const repo of repositories) {
     const repoName = getRepoName(repo);
-    if (repoName === "upgrade") {
+    if (repoName === getCommunityRepoName()) {
+      continue;
+    } else if (repoName === "upgrade") {
       if (remove) {
         delete odevRepos.upgrade;
       } else {
@@ -309,30 +357,6 @@ export function getPositionFromIndex(document: vscode.TextDocument, index: numbe
   return document.positionAt(index + offset);
 }
 
-const parseStringArray = (str: string) => {
-  const strippedStr = str.replace(/'/g, '"').replace(/\s+/g, "").replace(",]", "]");
-  const parse = JSON.parse as (str: string) => string[];
-  const result = Result.try_(parse, strippedStr);
-  return Result.unwrap(result);
-};
-
-export function getRequirements(addonPath: string) {
-  const manifestFilePath = `${addonPath}/__manifest__.py`;
-
-  if (!fs.existsSync(manifestFilePath)) {
-    throw new Error(`Manifest file not found at path '${addonPath}'.`);
-  }
-
-  const manifestContent = removeComments(fs.readFileSync(manifestFilePath, "utf8"));
-
-  const requirementsMatch = manifestContent.match(REQUIREMENTS_REGEX);
-  if (!requirementsMatch) {
-    return undefined;
-  }
-
-  return parseStringArray(requirementsMatch[1]);
-}
-
 export function getWithDemoDataStatusText(withDemoData: boolean | null) {
   if (typeof withDemoData === "boolean") {
     if (withDemoData) {
@@ -345,6 +369,89 @@ export function getWithDemoDataStatusText(withDemoData: boolean | null) {
   }
 }
 
+/**
+ * Named set of start options of the `Server Profiles` setting, e.g. `--dev=xml,reload`.
+ */
+export type ServerProfile = { name: string; args: string; description?: string };
+
+/**
+ * The profiles of the `Server Profiles` setting, the ones without a name are ignored.
+ */
+export function getServerProfiles(): ServerProfile[] {
+  const profiles = (vscode.workspace.getConfiguration("odooDev").serverProfiles ||
+    []) as Partial<ServerProfile>[];
+  return profiles
+    .filter((profile) => typeof profile.name === "string" && profile.name.trim() !== "")
+    .map((profile) => ({
+      name: profile.name as string,
+      args: profile.args || "",
+      description: profile.description,
+    }));
+}
+
+export function getServerProfileStatusText(profile: ServerProfile | undefined) {
+  return `$(rocket) ${profile ? profile.name : "No Profile"}`;
+}
+
+/**
+ * Splits a command line into its arguments. Quotes group words and a backslash escapes the next
+ * character, e.g. `-u sale --test-tags "/sale,/stock"`.
+ */
+export function splitArgs(commandLine: string): string[] {
+  const args: string[] = [];
+  let current: string | undefined;
+  let quote: string | undefined;
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === "\\" && quote === '"' && i + 1 < commandLine.length) {
+        current += commandLine[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current = current || "";
+    } else if (char === "\\" && i + 1 < commandLine.length) {
+      current = (current || "") + commandLine[++i];
+    } else if (/\s/.test(char)) {
+      if (current !== undefined) {
+        args.push(current);
+        current = undefined;
+      }
+    } else {
+      current = (current || "") + char;
+    }
+  }
+  if (quote) {
+    throw new Error(`Missing closing quote in: ${commandLine}`);
+  }
+  if (current !== undefined) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Joins the arguments into a command line that `splitArgs` (or a shell) splits back into the same
+ * arguments, e.g. `--db-filter='^a b$'`.
+ */
+export function joinArgs(args: string[]): string {
+  return args
+    .map((arg) => {
+      if (/^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+      } else if (!arg.includes("'")) {
+        return `'${arg}'`;
+      } else {
+        return `"${arg.replace(/(["\\$`])/g, "\\$1")}"`;
+      }
+    })
+    .join(" ");
+}
+
 export const debounce = <A extends any[], R extends any>(cb: (...args: A) => R, delay: number) => {
   let timeout: NodeJS.Timeout;
   return (...args: A) => {
@@ -358,3 +465,35 @@ export function startDebugging(config: vscode.DebugConfiguration, output: vscode
   output.appendLine(JSON.stringify(config, null, 2));
   return vscode.debug.startDebugging(undefined, config);
 }
+
+/**
+ * Opens the url in chrome if it's installed, otherwise, in the default browser.
+ */
+export async function openInBrowser(url: string) {
+  switch (process.platform) {
+    case "darwin": {
+      const chromePath = await runShellCommand(
+        `mdfind 'kMDItemCFBundleIdentifier == "com.google.Chrome"'`
+      );
+      const chrome = chromePath.trim();
+      if (chrome === "") {
+        vscode.env.openExternal(vscode.Uri.parse(url));
+      } else {
+        await runShellCommand(`open -a "${chrome}" ${url}`);
+      }
+      break;
+    }
+    case "linux": {
+      try {
+        await runShellCommand(`which google-chrome`);
+        await runShellCommand(`google-chrome ${url}`);
+      } catch (error) {
+        vscode.env.openExternal(vscode.Uri.parse(url));
+      }
+      break;
+    }
+    default: {
+      throw new Error(`Unsupported platform: ${process.platform}`);
+    }
+  }
+}
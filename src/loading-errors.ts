@@ -0,0 +1,102 @@
+// Recognition of the errors of the server while loading the modules, e.g. during `-u`.
+
+import { LogRecord } from "./server-log";
+
+export type LoadingError = {
+  message: string;
+  /**
+   * The data file of the error, or the frame of the module code in the traceback.
+   */
+  file?: string;
+  /**
+   * 1-based, 0 when only the file is known.
+   */
+  line: number;
+  /**
+   * The module that was being loaded, to locate the error without file.
+   */
+  module?: string;
+};
+
+/**
+ * `Loading module sale (12/40)` is logged at the info level for the modules that are updated.
+ */
+const LOADING_MODULE_REGEX = /^Loading module (\w+) \(\d+\/\d+\)/;
+/**
+ * Location of a `ParseError` of a data file, e.g. `while parsing /path/sale/views/sale.xml:12`.
+ */
+const PARSE_LOCATION_REGEX = /while parsing (\S+?\.(?:xml|csv)):(\d+)/;
+/**
+ * More precise location of the invalid node of a view, e.g.
+ * `View error context: {'file': '/path/sale/views/sale.xml', 'line': 14, ...}`.
+ */
+const VIEW_LOCATION_REGEX = /'file': '([^']+)',\s*'line': (\d+)/;
+const FRAME_REGEX = /^\s*File "(.+)", line (\d+)/;
+const EXCEPTION_REGEX = /^([\w.]+(?:Error|Exception|Violation)): (.+)$/;
+/**
+ * Errors of the loading of the modules, other errors, e.g. of the requests, are ignored.
+ */
+const LOADING_ERROR_REGEX =
+  /while parsing |External ID not found|psycopg2\.|^ERROR: |Failed to load registry|^bad query: /;
+
+/**
+ * Finds the loading errors in the log records of a server, fed in order.
+ */
+export class LoadingErrorParser {
+  private module: string | undefined;
+
+  /**
+   * @returns the error of the record, if any
+   */
+  parse(record: LogRecord): LoadingError | undefined {
+    if (record.logger === "odoo.modules.loading") {
+      const match = record.message.match(LOADING_MODULE_REGEX);
+      if (match) {
+        this.module = match[1];
+      }
+    }
+    if (record.level !== "ERROR" && record.level !== "CRITICAL") {
+      return;
+    }
+    const lines = [record.message, ...record.details].map((line) => line.trim());
+    if (!lines.some((line) => LOADING_ERROR_REGEX.test(line))) {
+      return;
+    }
+    return { message: getMessage(lines), ...this.getLocation(lines), module: this.module };
+  }
+
+  private getLocation(lines: string[]) {
+    for (const regex of [VIEW_LOCATION_REGEX, PARSE_LOCATION_REGEX]) {
+      const match = lines.map((line) => line.match(regex)).find((m) => m);
+      if (match) {
+        return { file: match[1], line: parseInt(match[2]) };
+      }
+    }
+    // The deepest frame in the code of the module, e.g. for the constraints of its models.
+    const module = this.module;
+    const frame = module
+      ? lines
+          .map((line) => line.match(FRAME_REGEX))
+          .reverse()
+          .find((match) => match && match[1].split(/[\\/]/).includes(module))
+      : undefined;
+    if (frame) {
+      return { file: frame[1], line: parseInt(frame[2]) };
+    }
+    return { line: 0 };
+  }
+}
+
+/**
+ * The cause of the error: in chained tracebacks, the cause comes before the `ParseError`.
+ */
+function getMessage(lines: string[]) {
+  const exceptions = lines.filter((line) => EXCEPTION_REGEX.test(line));
+  const cause = exceptions.find((line) => !/ParseError: /.test(line)) || exceptions[0];
+  if (cause) {
+    return cause;
+  }
+  // Queries are logged without traceback, with the error of postgres on the next line.
+  const postgresError = lines.find((line) => line.startsWith("ERROR: "));
+  return postgresError ? `${lines[0]}\n${postgresError}` : lines[0];
+}
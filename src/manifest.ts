@@ -0,0 +1,336 @@
+// Parser of the `__manifest__.py` of the addons.
+// The manifest is a python dict literal, so a small parser of python literals is used instead of
+// regexes: it handles comments, single/double/triple-quoted strings, implicit string concatenation,
+// tuples, sets and trailing commas.
+
+export type PythonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PythonValue[]
+  | { [key: string]: PythonValue };
+
+/**
+ * Items of an assets bundle, e.g. `"web/static/src/**\/*"` or `("include", "web._assets_helpers")`.
+ * Tuples are represented as arrays.
+ */
+export type AssetsItem = string | string[];
+
+export type OdooManifest = {
+  name?: string;
+  version?: string;
+  depends: string[];
+  data: string[];
+  assets: Record<string, AssetsItem[]>;
+  license?: string;
+  autoInstall: boolean | string[];
+  installable: boolean;
+  externalDependencies: { python: string[]; bin: string[] };
+  /**
+   * All the values of the manifest, as they are written.
+   */
+  raw: Record<string, PythonValue>;
+};
+
+const STRING_START_REGEX = /^[rRbBuUfF]{0,2}['"]/;
+const NUMBER_REGEX = /^[-+]?(\d[\d_]*(\.[\d_]*)?|\.\d[\d_]*)([eE][-+]?\d+)?/;
+const ESCAPES = new Map([
+  ["n", "\n"],
+  ["t", "\t"],
+  ["r", "\r"],
+  ["0", "\0"],
+  ["a", "\x07"],
+  ["b", "\b"],
+  ["f", "\f"],
+  ["v", "\v"],
+  ["\\", "\\"],
+  ["'", "'"],
+  ['"', '"'],
+  ["\n", ""],
+]);
+const CONSTANTS = new Map<string, PythonValue>([
+  ["True", true],
+  ["False", false],
+  ["None", null],
+]);
+
+class PythonLiteralParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): PythonValue {
+    this.skipTrivia();
+    const value = this.parseExpression();
+    this.skipTrivia();
+    if (this.pos < this.source.length) {
+      this.fail("Unexpected content after the literal");
+    }
+    return value;
+  }
+
+  private fail(message: string): never {
+    const line = this.source.slice(0, this.pos).split("\n").length;
+    throw new Error(`${message} at line ${line}.`);
+  }
+
+  private peek(length = 1) {
+    return this.source.slice(this.pos, this.pos + length);
+  }
+
+  private expect(char: string) {
+    this.skipTrivia();
+    if (this.peek() !== char) {
+      this.fail(`Expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  /**
+   * Skips the whitespaces, the comments and the line continuations.
+   */
+  private skipTrivia() {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (/\s/.test(char)) {
+        this.pos++;
+      } else if (char === "\\" && /^\\\r?\n/.test(this.source.slice(this.pos, this.pos + 3))) {
+        this.pos += this.source[this.pos + 1] === "\r" ? 3 : 2;
+      } else if (char === "#") {
+        const end = this.source.indexOf("\n", this.pos);
+        this.pos = end === -1 ? this.source.length : end + 1;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Only `+` (string and list concatenation) is supported as operator.
+   */
+  private parseExpression(): PythonValue {
+    let value = this.parsePrimary();
+    this.skipTrivia();
+    while (this.peek() === "+") {
+      this.pos++;
+      this.skipTrivia();
+      const right = this.parsePrimary();
+      if (typeof value === "string" && typeof right === "string") {
+        value = value + right;
+      } else if (Array.isArray(value) && Array.isArray(right)) {
+        value = [...value, ...right];
+      } else if (typeof value === "number" && typeof right === "number") {
+        value = value + right;
+      } else {
+        this.fail("Unsupported operands of '+'");
+      }
+      this.skipTrivia();
+    }
+    return value;
+  }
+
+  private parsePrimary(): PythonValue {
+    this.skipTrivia();
+    const rest = this.source.slice(this.pos, this.pos + 3);
+    const char = this.peek();
+    if (char === "{") {
+      return this.parseDictOrSet();
+    } else if (char === "[") {
+      this.pos++;
+      return this.parseSequence("]");
+    } else if (char === "(") {
+      this.pos++;
+      const items = this.parseSequence(")", true);
+      return items;
+    } else if (STRING_START_REGEX.test(rest)) {
+      return this.parseStrings();
+    }
+    const numberMatch = this.source.slice(this.pos).match(NUMBER_REGEX);
+    if (numberMatch) {
+      this.pos += numberMatch[0].length;
+      return Number(numberMatch[0].replace(/_/g, ""));
+    }
+    const nameMatch = this.source.slice(this.pos).match(/^[A-Za-z_]\w*/);
+    if (nameMatch) {
+      const constant = CONSTANTS.get(nameMatch[0]);
+      if (constant !== undefined) {
+        this.pos += nameMatch[0].length;
+        return constant;
+      }
+    }
+    this.fail("Unsupported expression");
+  }
+
+  /**
+   * Parses the items until the closing character (the opening one is already consumed).
+   * @param isParenthesized a single item without a trailing comma is just a parenthesized value.
+   */
+  private parseSequence(closing: string): PythonValue[];
+  private parseSequence(closing: string, isParenthesized: true): PythonValue;
+  private parseSequence(closing: string, isParenthesized = false): PythonValue {
+    const items: PythonValue[] = [];
+    let hasComma = false;
+    this.skipTrivia();
+    while (this.peek() !== closing) {
+      items.push(this.parseExpression());
+      this.skipTrivia();
+      if (this.peek() === ",") {
+        hasComma = true;
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.peek() !== closing) {
+        this.fail(`Expected ',' or '${closing}'`);
+      }
+    }
+    this.pos++;
+    if (isParenthesized && items.length === 1 && !hasComma) {
+      return items[0];
+    }
+    return items;
+  }
+
+  private parseDictOrSet(): PythonValue {
+    this.pos++;
+    this.skipTrivia();
+    if (this.peek() === "}") {
+      this.pos++;
+      return {};
+    }
+    const first = this.parseExpression();
+    this.skipTrivia();
+    if (this.peek() !== ":") {
+      // It's a set, represented as an array.
+      if (this.peek() === ",") {
+        this.pos++;
+        return [first, ...this.parseSequence("}")];
+      }
+      this.expect("}");
+      return [first];
+    }
+    const dict: Record<string, PythonValue> = {};
+    let key = first;
+    for (;;) {
+      this.expect(":");
+      this.skipTrivia();
+      dict[String(key)] = this.parseExpression();
+      this.skipTrivia();
+      if (this.peek() === ",") {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.peek() !== "}") {
+        this.fail("Expected ',' or '}'");
+      }
+      if (this.peek() === "}") {
+        this.pos++;
+        return dict;
+      }
+      key = this.parseExpression();
+    }
+  }
+
+  /**
+   * Adjacent strings are concatenated, e.g. `"foo" "bar"`.
+   */
+  private parseStrings(): string {
+    let value = this.parseString();
+    this.skipTrivia();
+    while (STRING_START_REGEX.test(this.source.slice(this.pos, this.pos + 3))) {
+      value += this.parseString();
+      this.skipTrivia();
+    }
+    return value;
+  }
+
+  private parseString(): string {
+    let isRaw = false;
+    while (/[rRbBuUfF]/.test(this.peek())) {
+      isRaw = isRaw || /[rR]/.test(this.peek());
+      this.pos++;
+    }
+    const quote = this.peek();
+    const delimiter = this.peek(3) === quote.repeat(3) ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+    let value = "";
+    while (this.peek(delimiter.length) !== delimiter) {
+      if (this.pos >= this.source.length) {
+        this.fail("Unterminated string");
+      }
+      const char = this.peek();
+      if (char === "\n" && delimiter.length === 1) {
+        this.fail("Unterminated string");
+      }
+      if (char === "\\") {
+        const next = this.source[this.pos + 1];
+        if (isRaw) {
+          value += char + next;
+        } else if (ESCAPES.has(next)) {
+          value += ESCAPES.get(next);
+        } else if (next === "x" || next === "u") {
+          const length = next === "x" ? 2 : 4;
+          const code = this.source.slice(this.pos + 2, this.pos + 2 + length);
+          value += String.fromCharCode(parseInt(code, 16));
+          this.pos += length;
+        } else {
+          value += char + next;
+        }
+        this.pos += 2;
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+    this.pos += delimiter.length;
+    return value;
+  }
+}
+
+export function parsePythonLiteral(source: string): PythonValue {
+  return new PythonLiteralParser(source).parse();
+}
+
+const toStringArray = (value: PythonValue | undefined): string[] => {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+};
+
+export function parseManifest(content: string): OdooManifest {
+  const raw = parsePythonLiteral(content);
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("The manifest is not a dictionary.");
+  }
+
+  const assets: Record<string, AssetsItem[]> = {};
+  const rawAssets = raw.assets;
+  if (rawAssets && typeof rawAssets === "object" && !Array.isArray(rawAssets)) {
+    for (const [bundle, items] of Object.entries(rawAssets)) {
+      assets[bundle] = (Array.isArray(items) ? items : []).filter(
+        (item): item is AssetsItem => typeof item === "string" || Array.isArray(item)
+      ) as AssetsItem[];
+    }
+  }
+
+  const rawExternalDependencies = raw.external_dependencies;
+  const externalDependencies = { python: [] as string[], bin: [] as string[] };
+  if (
+    rawExternalDependencies &&
+    typeof rawExternalDependencies === "object" &&
+    !Array.isArray(rawExternalDependencies)
+  ) {
+    externalDependencies.python = toStringArray(rawExternalDependencies.python);
+    externalDependencies.bin = toStringArray(rawExternalDependencies.bin);
+  }
+
+  const autoInstall = raw.auto_install;
+  return {
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    version: typeof raw.version === "string" ? raw.version : undefined,
+    depends: toStringArray(raw.depends),
+    data: toStringArray(raw.data),
+    assets,
+    license: typeof raw.license === "string" ? raw.license : undefined,
+    autoInstall: Array.isArray(autoInstall) ? toStringArray(autoInstall) : autoInstall === true,
+    installable: raw.installable !== false,
+    externalDependencies,
+    raw,
+  };
+}
@@ -1,6 +1,11 @@
 import * as vscode from "vscode";
-import { OdooDevRepositories, getAddons, getRequirements, isAddon } from "./helpers";
-import { Repository } from "./dependencies/git";
+import { AddonsIndex, AddonsRoot } from "./addons-index";
+
+/**
+ * - `dependencies`: addons expand into their `depends`.
+ * - `dependents`: addons expand into the addons that depend on them.
+ */
+export type AddonsTreeMode = "dependencies" | "dependents";
 
 export class OdooAddonsTree implements vscode.TreeDataProvider<OdooAddon> {
   private _onDidChangeTreeData: vscode.EventEmitter<OdooAddon | undefined | void> =
@@ -8,13 +13,27 @@ export class OdooAddonsTree implements vscode.TreeDataProvider<OdooAddon> {
   readonly onDidChangeTreeData: vscode.Event<OdooAddon | undefined | void> =
     this._onDidChangeTreeData.event;
 
-  constructor(
-    private odevRepos: OdooDevRepositories,
-    private getRepoPath: (repo: Repository) => string
-  ) {}
+  private _mode: AddonsTreeMode = "dependencies";
+
+  constructor(private getAddonsRoots: () => AddonsRoot[], private addonsIndex: AddonsIndex) {
+    addonsIndex.onDidChange(() => this.refresh());
+  }
+
+  get mode(): AddonsTreeMode {
+    return this._mode;
+  }
 
-  get odooPath(): string | undefined {
-    return this.getRepoPath(this.odevRepos.odoo);
+  setMode(mode: AddonsTreeMode) {
+    this._mode = mode;
+    this.refresh();
+  }
+
+  private createAddon(name: string) {
+    const children =
+      this.mode === "dependents"
+        ? this.addonsIndex.getGraph().getDependents(name)
+        : this.addonsIndex.get(name)?.depends || [];
+    return new OdooAddon(name, this.addonsIndex.getPath(name) || "", "addon", children);
   }
 
   refresh(): void {
@@ -26,89 +45,47 @@ export class OdooAddonsTree implements vscode.TreeDataProvider<OdooAddon> {
   }
 
   async getChildren(element?: OdooAddon): Promise<OdooAddon[]> {
+    await this.addonsIndex.ready();
     if (!element) {
-      if (!this.odooPath) {
-        return [];
-      }
-      const odooRoot = new OdooAddon("odoo", this.odooPath, "addon-root");
-      return [
-        odooRoot,
-        ...Object.entries(this.odevRepos.custom).map(([name, repo]) => {
-          return new OdooAddon(name, this.getRepoPath(repo), "addon-root");
-        }),
-      ];
-    } else {
-      if (element.name === "odoo") {
-        const path1 = `${this.odooPath}/addons`;
-        const path2 = `${this.odooPath}/odoo/addons`;
-        const addons1 = (await getAddons(path1)).map((name) => [name, `${path1}/${name}`]);
-        const addons2 = (await getAddons(path2)).map((name) => [name, `${path2}/${name}`]);
-        const odooAddons = [...addons1, ...addons2];
-        return odooAddons.map(([name, path]) => {
-          return new OdooAddon(name, path, "addon");
-        });
-      } else if (element.name in this.odevRepos.custom) {
-        const path = this.getRepoPath(this.odevRepos.custom[element.name]);
-        const enterpriseAddons = (await getAddons(path)).map((name) => [name, `${path}/${name}`]);
-        return enterpriseAddons.map(([name, path]) => {
-          return new OdooAddon(name, path, "addon");
-        });
-      } else {
-        const requirements = getRequirements(element.path);
-        if (!requirements) {
-          return [];
-        } else {
-          return Promise.all(
-            requirements.map(async (name) => {
-              const paths = [
-                `${this.odooPath}/addons`,
-                `${this.odooPath}/odoo/addons`,
-                ...Object.entries(this.odevRepos.custom).map(([, repo]) => this.getRepoPath(repo)),
-              ];
-              const thePath = (
-                await Promise.all(
-                  paths.map(
-                    async (path) => [path, await isAddon(`${path}/${name}`)] as [string, boolean]
-                  )
-                )
-              )
-                .filter(([, isa]) => isa)
-                .map(([path]) => path)[0];
-              return new OdooAddon(name, `${thePath}/${name}`, "addon");
-            })
-          );
+      // One item for each repository, the addons of all its roots are grouped together.
+      const repos = new Map<string, string>();
+      for (const root of this.getAddonsRoots()) {
+        if (!repos.has(root.repo)) {
+          repos.set(root.repo, root.path);
         }
       }
+      return [...repos.entries()].map(([name, path]) => new OdooAddon(name, path, "addon-root"));
+    } else if (element.contextValue === "addon-root") {
+      return this.addonsIndex
+        .getAddons(element.name)
+        .map((addon) => addon.name)
+        .sort()
+        .map((name) => this.createAddon(name));
+    } else {
+      return element.children.map((name) => this.createAddon(name));
     }
   }
 }
 
 export class OdooAddon extends vscode.TreeItem {
-  public requirements: string[] | undefined;
   constructor(
     readonly name: string,
     readonly path: string,
     readonly contextValue: string,
-    readonly command?: vscode.Command
+    /**
+     * The `depends` of the addon, or its dependents in the `dependents` mode of the tree.
+     */
+    readonly children: string[] = []
   ) {
-    let requirements: string[] | undefined;
     let collapsibleState: vscode.TreeItemCollapsibleState;
-    if (contextValue === "addon-root") {
+    if (contextValue === "addon-root" || children.length > 0) {
       collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-    } else if (contextValue === "addon") {
-      requirements = getRequirements(path);
-      if (requirements) {
-        collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-      } else {
-        collapsibleState = vscode.TreeItemCollapsibleState.None;
-      }
     } else {
       collapsibleState = vscode.TreeItemCollapsibleState.None;
     }
     super(name, collapsibleState);
     this.name = name;
     this.path = path;
-    this.requirements = requirements;
     this.contextValue = contextValue;
   }
 }
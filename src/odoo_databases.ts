@@ -0,0 +1,94 @@
+import * as vscode from "vscode";
+import { getBase } from "./helpers";
+import { listDatabases } from "./databases";
+
+const OTHERS_GROUP = "Others";
+
+export class OdooDatabasesTree implements vscode.TreeDataProvider<OdooDatabase> {
+  private _onDidChangeTreeData: vscode.EventEmitter<OdooDatabase | undefined | void> =
+    new vscode.EventEmitter<OdooDatabase | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<OdooDatabase | undefined | void> =
+    this._onDidChangeTreeData.event;
+
+  private databases: string[] | undefined;
+
+  refresh(): void {
+    this.databases = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: OdooDatabase): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Databases are grouped by the base branch inferred from their names.
+   */
+  groupDatabases(databases: string[]) {
+    const groups: Record<string, string[]> = {};
+    for (const name of databases) {
+      const group = getBase(name) || OTHERS_GROUP;
+      if (!(group in groups)) {
+        groups[group] = [];
+      }
+      groups[group].push(name);
+    }
+    return groups;
+  }
+
+  async getChildren(element?: OdooDatabase): Promise<OdooDatabase[]> {
+    if (!this.databases) {
+      try {
+        this.databases = await listDatabases();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Unable to list the databases because of "${(error as Error).message}".`
+        );
+        this.databases = [];
+      }
+    }
+    const groups = this.groupDatabases(this.databases);
+    if (!element) {
+      const groupNames = Object.keys(groups).filter((name) => name !== OTHERS_GROUP);
+      groupNames.sort((a, b) => {
+        if (a === "master") {
+          return -1;
+        } else if (b === "master") {
+          return 1;
+        } else {
+          return b.replace("saas-", "").localeCompare(a.replace("saas-", ""));
+        }
+      });
+      if (OTHERS_GROUP in groups) {
+        groupNames.push(OTHERS_GROUP);
+      }
+      return groupNames.map((name) => {
+        return new OdooDatabase(name, "database-group", vscode.TreeItemCollapsibleState.Expanded);
+      });
+    } else if (element.contextValue === "database-group") {
+      return groups[element.name].map((name) => {
+        return new OdooDatabase(name, "database", vscode.TreeItemCollapsibleState.None);
+      });
+    } else {
+      return [];
+    }
+  }
+}
+
+export class OdooDatabase extends vscode.TreeItem {
+  constructor(
+    readonly name: string,
+    readonly contextValue: string,
+    readonly collapsibleState: vscode.TreeItemCollapsibleState
+  ) {
+    super(name, collapsibleState);
+    this.id = `${contextValue}:${name}`;
+    this.name = name;
+    this.contextValue = contextValue;
+    if (contextValue === "database") {
+      this.iconPath = new vscode.ThemeIcon("database");
+    } else {
+      this.iconPath = new vscode.ThemeIcon("repo");
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import * as vscode from "vscode";
+import { GraphLayout } from "./dependency-graph";
+
+const REPO_COLORS = [
+  "var(--vscode-charts-purple)",
+  "var(--vscode-charts-blue)",
+  "var(--vscode-charts-orange)",
+  "var(--vscode-charts-green)",
+  "var(--vscode-charts-yellow)",
+  "var(--vscode-charts-red)",
+];
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+const getNonce = () => {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: 32 }, () => chars[Math.floor(Math.random() * chars.length)]).join("");
+};
+
+/**
+ * Webview that draws the dependency graph of a set of addons.
+ * - Zoom with the mouse wheel and pan by dragging the background.
+ * - Click two addons to highlight the paths between them, double-click an addon to open its
+ *   manifest.
+ * - The addons are colored by repository and can be filtered by repository.
+ */
+export class DependencyGraphPanel {
+  private static current: DependencyGraphPanel | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private onOpenManifest: (addon: string) => void
+  ) {
+    panel.onDidDispose(() => {
+      DependencyGraphPanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage((message: { command: string; addon: string }) => {
+      if (message.command === "openManifest") {
+        this.onOpenManifest(message.addon);
+      }
+    });
+  }
+
+  /**
+   * @param repos name of the repository of each addon of the layout
+   * @param repoNames the repositories in the order of their colors
+   */
+  static show(
+    title: string,
+    layout: GraphLayout,
+    repos: Record<string, string>,
+    repoNames: string[],
+    onOpenManifest: (addon: string) => void
+  ) {
+    if (DependencyGraphPanel.current) {
+      DependencyGraphPanel.current.onOpenManifest = onOpenManifest;
+      DependencyGraphPanel.current.panel.reveal();
+    } else {
+      const panel = vscode.window.createWebviewPanel(
+        "odooDevDependencyGraph",
+        title,
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+      );
+      DependencyGraphPanel.current = new DependencyGraphPanel(panel, onOpenManifest);
+    }
+    const { panel } = DependencyGraphPanel.current;
+    panel.title = title;
+    panel.webview.html = getHtml(panel.webview, layout, repos, repoNames);
+  }
+}
+
+function getHtml(
+  webview: vscode.Webview,
+  layout: GraphLayout,
+  repos: Record<string, string>,
+  repoNames: string[]
+) {
+  const nonce = getNonce();
+  const colors = Object.fromEntries(
+    repoNames.map((name, i) => [name, REPO_COLORS[i % REPO_COLORS.length]])
+  );
+  const nodes = new Map(layout.nodes.map((node) => [node.addon, node]));
+
+  const edges = layout.edges.map(([from, to]) => {
+    const source = nodes.get(from);
+    const target = nodes.get(to);
+    if (!source || !target) {
+      return "";
+    }
+    const x1 = source.x + source.width / 2;
+    const y1 = source.y + source.height;
+    const x2 = target.x + target.width / 2;
+    const y2 = target.y;
+    const dy = Math.max((y2 - y1) / 2, 24);
+    const d = `M${x1},${y1} C${x1},${y1 + dy} ${x2},${y2 - dy} ${x2},${y2}`;
+    return `<path class="edge" data-from="${escapeHtml(from)}" data-to="${escapeHtml(
+      to
+    )}" d="${d}"/>`;
+  });
+
+  const nodeElements = layout.nodes.map((node) => {
+    const repo = repos[node.addon] || "";
+    const color = colors[repo] || "var(--vscode-foreground)";
+    return `<g class="node" data-addon="${escapeHtml(node.addon)}" data-repo="${escapeHtml(
+      repo
+    )}" transform="translate(${node.x},${node.y})">
+  <rect width="${node.width}" height="${node.height}" rx="4" style="stroke: ${color}"/>
+  <text x="${node.width / 2}" y="${node.height / 2}">${escapeHtml(node.addon)}</text>
+</g>`;
+  });
+
+  const filters = repoNames.map((name) => {
+    return `<label style="color: ${colors[name]}"><input type="checkbox" data-repo="${escapeHtml(
+      name
+    )}" checked>${escapeHtml(name)}</label>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${
+    webview.cspSource
+  } 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+    body { display: flex; flex-direction: column; color: var(--vscode-foreground); }
+    #toolbar { display: flex; gap: 12px; align-items: center; padding: 6px 10px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #toolbar label { display: flex; gap: 4px; align-items: center; }
+    #status { margin-left: auto; opacity: 0.8; }
+    svg { flex: 1; cursor: grab; }
+    svg.panning { cursor: grabbing; }
+    .edge { fill: none; stroke: var(--vscode-editorLineNumber-foreground); stroke-width: 1; opacity: 0.6; }
+    .node { cursor: pointer; }
+    .node rect { fill: var(--vscode-editor-background); stroke-width: 2; }
+    .node text { fill: var(--vscode-foreground); font-family: var(--vscode-editor-font-family); font-size: 12px; text-anchor: middle; dominant-baseline: central; }
+    .filtered { display: none; }
+    .has-highlight .node, .has-highlight .edge { opacity: 0.2; }
+    .has-highlight .highlighted { opacity: 1; }
+    .edge.highlighted { stroke: var(--vscode-focusBorder); stroke-width: 2; }
+    .node.selected rect { fill: var(--vscode-list-activeSelectionBackground); }
+  </style>
+</head>
+<body>
+  <div id="toolbar">
+    ${filters.join("\n    ")}
+    <button id="fit">Fit</button>
+    <button id="clear">Clear</button>
+    <span id="status">Click two addons to highlight the paths between them.</span>
+  </div>
+  <svg id="graph" xmlns="http://www.w3.org/2000/svg">
+    <g id="viewport">
+      ${edges.join("\n      ")}
+      ${nodeElements.join("\n      ")}
+    </g>
+  </svg>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const svg = document.getElementById("graph");
+    const viewport = document.getElementById("viewport");
+    const status = document.getElementById("status");
+    const graphSize = { width: ${layout.width}, height: ${layout.height} };
+    let view = { x: 0, y: 0, scale: 1 };
+
+    const applyView = () => {
+      viewport.setAttribute("transform", "translate(" + view.x + "," + view.y + ") scale(" + view.scale + ")");
+    };
+    const fit = () => {
+      const { width, height } = svg.getBoundingClientRect();
+      const scale = Math.min(1, (width - 40) / Math.max(graphSize.width, 1), (height - 40) / Math.max(graphSize.height, 1));
+      view = {
+        scale,
+        x: (width - graphSize.width * scale) / 2,
+        y: (height - graphSize.height * scale) / 2,
+      };
+      applyView();
+    };
+
+    svg.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+      const py = event.clientY - rect.top;
+      const factor = Math.exp(-event.deltaY * 0.001);
+      const scale = Math.min(Math.max(view.scale * factor, 0.05), 4);
+      view.x = px - ((px - view.x) * scale) / view.scale;
+      view.y = py - ((py - view.y) * scale) / view.scale;
+      view.scale = scale;
+      applyView();
+    }, { passive: false });
+
+    let panStart = null;
+    svg.addEventListener("mousedown", (event) => {
+      if (event.target.closest(".node")) {
+        return;
+      }
+      panStart = { x: event.clientX - view.x, y: event.clientY - view.y };
+      svg.classList.add("panning");
+    });
+    window.addEventListener("mousemove", (event) => {
+      if (panStart) {
+        view.x = event.clientX - panStart.x;
+        view.y = event.clientY - panStart.y;
+        applyView();
+      }
+    });
+    window.addEventListener("mouseup", () => {
+      panStart = null;
+      svg.classList.remove("panning");
+    });
+
+    const nodeElements = [...document.querySelectorAll(".node")];
+    const edgeElements = [...document.querySelectorAll(".edge")];
+    const dependencies = new Map();
+    const dependents = new Map();
+    for (const edge of edgeElements) {
+      const { from, to } = edge.dataset;
+      dependencies.set(from, [...(dependencies.get(from) || []), to]);
+      dependents.set(to, [...(dependents.get(to) || []), from]);
+    }
+    const reach = (start, neighbors) => {
+      const visited = new Set([start]);
+      const stack = [start];
+      while (stack.length > 0) {
+        for (const next of neighbors.get(stack.pop()) || []) {
+          if (!visited.has(next)) {
+            visited.add(next);
+            stack.push(next);
+          }
+        }
+      }
+      return visited;
+    };
+
+    let selection = [];
+    const clearHighlight = () => {
+      selection = [];
+      svg.classList.remove("has-highlight");
+      for (const element of [...nodeElements, ...edgeElements]) {
+        element.classList.remove("highlighted", "selected");
+      }
+      status.textContent = "Click two addons to highlight the paths between them.";
+    };
+    const highlightPaths = (from, to) => {
+      // The addons on a path are the dependencies of 'from' that depend on 'to'.
+      const below = reach(from, dependencies);
+      const above = reach(to, dependents);
+      const onPath = new Set([...below].filter((addon) => above.has(addon)));
+      if (onPath.size === 0) {
+        return false;
+      }
+      svg.classList.add("has-highlight");
+      for (const node of nodeElements) {
+        node.classList.toggle("highlighted", onPath.has(node.dataset.addon));
+      }
+      for (const edge of edgeElements) {
+        edge.classList.toggle("highlighted", onPath.has(edge.dataset.from) && onPath.has(edge.dataset.to));
+      }
+      status.textContent = from + " depends on " + to + ".";
+      return true;
+    };
+    for (const node of nodeElements) {
+      node.addEventListener("click", () => {
+        if (selection.includes(node.dataset.addon)) {
+          return;
+        }
+        if (selection.length === 2) {
+          clearHighlight();
+        }
+        selection.push(node.dataset.addon);
+        node.classList.add("selected");
+        if (selection.length === 1) {
+          status.textContent = "Select the second addon.";
+        } else {
+          const [a, b] = selection;
+          if (!highlightPaths(a, b) && !highlightPaths(b, a)) {
+            status.textContent = "There is no dependency between " + a + " and " + b + ".";
+          }
+        }
+      });
+      node.addEventListener("dblclick", () => {
+        vscode.postMessage({ command: "openManifest", addon: node.dataset.addon });
+      });
+    }
+
+    for (const checkbox of document.querySelectorAll("input[data-repo]")) {
+      checkbox.addEventListener("change", () => {
+        const hidden = new Set(
+          [...document.querySelectorAll("input[data-repo]")]
+            .filter((input) => !input.checked)
+            .map((input) => input.dataset.repo)
+        );
+        const hiddenAddons = new Set();
+        for (const node of nodeElements) {
+          const isHidden = hidden.has(node.dataset.repo);
+          node.classList.toggle("filtered", isHidden);
+          if (isHidden) {
+            hiddenAddons.add(node.dataset.addon);
+          }
+        }
+        for (const edge of edgeElements) {
+          edge.classList.toggle("filtered", hiddenAddons.has(edge.dataset.from) || hiddenAddons.has(edge.dataset.to));
+        }
+      });
+    }
+
+    document.getElementById("fit").addEventListener("click", fit);
+    document.getElementById("clear").addEventListener("click", clearHighlight);
+    window.addEventListener("keydown", (event) => {
+      if (event.key === "Escape") {
+        clearHighlight();
+      }
+    });
+    fit();
+  </script>
+</body>
+</html>`;
+}
@@ -1,25 +1,30 @@
 import * as vscode from "vscode";
-import { getBaseBranches, getDevBranches } from "./state";
-import { OdooDevRepositories } from "./helpers";
+import { BranchStore } from "./state";
+import { BranchRepoStatus, OdooDevRepositories, getBranchRepoStatus } from "./helpers";
 import { Repository } from "./dependencies/git";
+import { getWorktreePath, hasWorktreeSet, isWorktreeMode } from "./worktrees";
 
-export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranch> {
-  private _onDidChangeTreeData: vscode.EventEmitter<OdooDevBranch | undefined | void> =
-    new vscode.EventEmitter<OdooDevBranch | undefined | void>();
-  readonly onDidChangeTreeData: vscode.Event<OdooDevBranch | undefined | void> =
+type OdooDevBranchesItem = OdooDevBranch | OdooDevBranchRepo;
+
+export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranchesItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<OdooDevBranchesItem | undefined | void> =
+    new vscode.EventEmitter<OdooDevBranchesItem | undefined | void>();
+  readonly onDidChangeTreeData: vscode.Event<OdooDevBranchesItem | undefined | void> =
     this._onDidChangeTreeData.event;
 
-  constructor(private odevRepos: OdooDevRepositories) {}
+  constructor(
+    private odevRepos: OdooDevRepositories,
+    private getActiveWorktree: () => string | undefined,
+    private branchStore: BranchStore
+  ) {
+    branchStore.onDidChange(() => this.refresh());
+  }
 
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
-  /**
-   * Override icon and description of the tree item based on the active branches in the repos.
-   * @param element
-   */
-  describe(element: OdooDevBranch): vscode.TreeItem {
+  getRepos(): [name: string, repo: Repository][] {
     const repos: [name: string, repo: Repository][] = [
       ["odoo", this.odevRepos.odoo],
       ...Object.entries(this.odevRepos.custom),
@@ -29,8 +34,24 @@ export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranch> {
       repos.push(["upgrade", this.odevRepos.upgrade]);
     }
 
+    return repos;
+  }
+
+  /**
+   * Override icon and description of the tree item based on the active branches in the repos.
+   * @param element
+   */
+  describe(element: OdooDevBranch): vscode.TreeItem {
+    if (element.name !== element.base) {
+      element.tooltip = this.getTooltip(element);
+    }
+
+    if (isWorktreeMode() && (element.name !== element.base || this.getActiveWorktree())) {
+      return this.describeWorktreeSet(element);
+    }
+
     const descriptions: string[] = [];
-    for (const [name, repo] of repos) {
+    for (const [name, repo] of this.getRepos()) {
       if (repo.state.HEAD?.name === element.name) {
         descriptions.push(name);
       }
@@ -47,13 +68,86 @@ export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranch> {
     return element;
   }
 
-  async getTreeItem(element: OdooDevBranch): Promise<vscode.TreeItem> {
+  /**
+   * In worktree mode, the active branch is the one with the active worktree set.
+   * @param element
+   */
+  describeWorktreeSet(element: OdooDevBranch): vscode.TreeItem {
+    if (this.getActiveWorktree() === element.name) {
+      element.iconPath = new vscode.ThemeIcon("check-all");
+      element.description = "worktree (active)";
+    } else if (hasWorktreeSet(element.name)) {
+      element.description = "worktree";
+    }
+    return element;
+  }
+
+  getTooltip(element: OdooDevBranch): vscode.MarkdownString {
+    const formatDate = (time: number) => new Date(time).toLocaleString();
+    const devBranch = this.branchStore.getDevBranch(element.name);
+    const { createdAt, lastCheckout, pullRequests } = this.branchStore.getMetadata(element.name);
+    const lines = [`**${element.name}**`];
+    if (devBranch && devBranch.repos.length > 0) {
+      lines.push(`Repositories: ${devBranch.repos.join(", ")}`);
+    }
+    if (createdAt) {
+      lines.push(`Created: ${formatDate(createdAt)}`);
+    }
+    if (lastCheckout) {
+      lines.push(`Last checkout: ${formatDate(lastCheckout)}`);
+    }
+    for (const url of pullRequests || []) {
+      lines.push(`[${url}](${url})`);
+    }
+    return new vscode.MarkdownString(lines.join("\n\n"));
+  }
+
+  async getTreeItem(element: OdooDevBranchesItem): Promise<vscode.TreeItem> {
+    if (element instanceof OdooDevBranchRepo) {
+      return element;
+    }
     return this.describe(element);
   }
 
-  async getChildren(element?: OdooDevBranch): Promise<OdooDevBranch[]> {
+  /**
+   * Location where the branch is checked out in the given repo, if it is.
+   */
+  getCheckoutPath(branch: string, repoName: string, repo: Repository) {
+    if (isWorktreeMode() && hasWorktreeSet(branch)) {
+      return getWorktreePath(branch, repoName);
+    } else if (repo.state.HEAD?.name === branch) {
+      return repo.rootUri.fsPath;
+    }
+  }
+
+  async getRepoChildren(element: OdooDevBranch): Promise<OdooDevBranchRepo[]> {
+    return Promise.all(
+      this.getRepos().map(async ([repoName, repo]) => {
+        let status: BranchRepoStatus;
+        try {
+          status = await getBranchRepoStatus(
+            repo.rootUri.fsPath,
+            element.name,
+            element.base,
+            this.getCheckoutPath(element.name, repoName, repo)
+          );
+        } catch (error) {
+          status = { exists: false, remotes: [] };
+        }
+        return new OdooDevBranchRepo(repoName, element.name, status);
+      })
+    );
+  }
+
+  async getChildren(element?: OdooDevBranchesItem): Promise<OdooDevBranchesItem[]> {
+    if (element instanceof OdooDevBranchRepo) {
+      return [];
+    } else if (element && element.contextValue === "dev-branch") {
+      return this.getRepoChildren(element);
+    }
+
     if (!element) {
-      const baseBranches = [...getBaseBranches()];
+      const baseBranches = [...this.branchStore.getBaseBranches()];
       baseBranches.sort((a, b) => {
         if (a === "master") {
           return -1;
@@ -66,7 +160,7 @@ export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranch> {
         }
       });
       return baseBranches.map((name) => {
-        const devBranches = getDevBranches(name);
+        const devBranches = this.branchStore.getDevBranches(name);
         return new OdooDevBranch(
           name,
           name,
@@ -78,14 +172,14 @@ export class OdooDevBranches implements vscode.TreeDataProvider<OdooDevBranch> {
       });
     } else {
       const branchName = element.name;
-      const devBranches = [...getDevBranches(branchName)];
-      devBranches.sort();
+      const devBranches = [...this.branchStore.getDevBranches(branchName)];
+      devBranches.sort((a, b) => a.name.localeCompare(b.name));
       return devBranches.map(({ name }) => {
         return new OdooDevBranch(
           name,
           element.base,
           "dev-branch",
-          vscode.TreeItemCollapsibleState.None
+          vscode.TreeItemCollapsibleState.Collapsed
         );
       });
     }
@@ -112,3 +206,63 @@ export class OdooDevBranch extends vscode.TreeItem {
     }
   }
 }
+
+/**
+ * Shows the status of a dev branch in one of the repositories.
+ */
+export class OdooDevBranchRepo extends vscode.TreeItem {
+  constructor(
+    public readonly repoName: string,
+    public readonly branch: string,
+    public readonly status: BranchRepoStatus
+  ) {
+    super(repoName, vscode.TreeItemCollapsibleState.None);
+    this.id = `${branch}:${repoName}`;
+    this.contextValue = "dev-branch-repo";
+
+    const { exists, remotes, upstream, upstreamDiff, baseDiff, dirty } = status;
+    const descriptions: string[] = [];
+    const details: string[] = [];
+    if (!exists) {
+      this.iconPath = new vscode.ThemeIcon(remotes.length > 0 ? "cloud" : "circle-slash");
+      descriptions.push("not local");
+      details.push("The branch doesn't exist locally.");
+    } else if (dirty) {
+      this.iconPath = new vscode.ThemeIcon("diff-modified");
+    } else if (!upstream) {
+      this.iconPath = new vscode.ThemeIcon("cloud-upload");
+    } else {
+      this.iconPath = new vscode.ThemeIcon("pass");
+    }
+
+    if (exists) {
+      if (upstream) {
+        const diff = upstreamDiff ? ` ↑${upstreamDiff.ahead} ↓${upstreamDiff.behind}` : "";
+        descriptions.push(`${upstream}${diff}`);
+        details.push(`Tracking '${upstream}'${diff}.`);
+      } else {
+        descriptions.push("no upstream");
+        details.push("The branch has no upstream.");
+      }
+      if (baseDiff) {
+        const diff = `↑${baseDiff.ahead} ↓${baseDiff.behind}`;
+        descriptions.push(`base ${diff}`);
+        details.push(`Compared to the base branch: ${diff}.`);
+      }
+      if (dirty) {
+        descriptions.push("dirty");
+        details.push("The working tree has uncommitted changes.");
+      }
+    }
+
+    if (remotes.length > 0) {
+      details.push(`Available in: ${remotes.join(", ")}.`);
+      if (!exists) {
+        descriptions.push(`on ${remotes.join(", ")}`);
+      }
+    }
+
+    this.description = descriptions.join(" · ");
+    this.tooltip = details.join("\n");
+  }
+}
@@ -0,0 +1,274 @@
+import * as vscode from "vscode";
+import { FRAME_REGEX, LogRecord, ServerLog } from "./server-log";
+
+const LEVELS = ["DEBUG", "INFO", "WARNING", "ERROR", "CRITICAL"];
+
+const getNonce = () => {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: 32 }, () => chars[Math.floor(Math.random() * chars.length)]).join("");
+};
+
+/**
+ * Embeds the value in a script, `</script>` in a string must not end the script.
+ */
+const toScriptValue = (value: unknown) => JSON.stringify(value).replace(/</g, "\\u003c");
+
+/**
+ * Webview that shows the log of a server instance as it's written.
+ * - The records can be filtered by level, logger and database.
+ * - The lines that follow a record (e.g. a traceback) are collapsed under it, the locations of
+ *   the traceback frames open the file at the line.
+ */
+export class ServerLogPanel {
+  private static current: ServerLogPanel | undefined;
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private name: string,
+    private onOpenFile: (file: string, line: number) => void
+  ) {
+    panel.onDidDispose(() => {
+      ServerLogPanel.current = undefined;
+    });
+    panel.webview.onDidReceiveMessage(
+      (message: { command: string; file: string; line: number }) => {
+        if (message.command === "openFile") {
+          this.onOpenFile(message.file, message.line);
+        }
+      }
+    );
+  }
+
+  /**
+   * @param name the server instance of the log
+   */
+  static show(name: string, log: ServerLog, onOpenFile: (file: string, line: number) => void) {
+    const title = `Log: ${name}`;
+    if (ServerLogPanel.current) {
+      ServerLogPanel.current.name = name;
+      ServerLogPanel.current.onOpenFile = onOpenFile;
+      ServerLogPanel.current.panel.reveal();
+    } else {
+      const panel = vscode.window.createWebviewPanel(
+        "odooDevServerLog",
+        title,
+        vscode.ViewColumn.Active,
+        // The records received while the panel is hidden are not lost.
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      ServerLogPanel.current = new ServerLogPanel(panel, name, onOpenFile);
+    }
+    const { panel } = ServerLogPanel.current;
+    panel.title = title;
+    panel.webview.html = getHtml(panel.webview, log.records);
+  }
+
+  /**
+   * Renders the new or changed records if the log of `name` is shown.
+   */
+  static update(name: string, records: LogRecord[]) {
+    const current = ServerLogPanel.current;
+    if (current && current.name === name && records.length > 0) {
+      current.panel.webview.postMessage({ command: "update", records });
+    }
+  }
+
+  /**
+   * Clears the panel if the log of `name` is shown, e.g. when the server is started again.
+   */
+  static clear(name: string) {
+    const current = ServerLogPanel.current;
+    if (current && current.name === name) {
+      current.panel.webview.postMessage({ command: "clear" });
+    }
+  }
+}
+
+function getHtml(webview: vscode.Webview, records: readonly LogRecord[]) {
+  const nonce = getNonce();
+  const levelFilters = [...LEVELS, "OTHER"].map((level) => {
+    return `<label class="level-${level}"><input type="checkbox" data-level="${level}" checked>${level}</label>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${
+    webview.cspSource
+  } 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+    body { display: flex; flex-direction: column; color: var(--vscode-foreground); }
+    #toolbar { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; padding: 6px 10px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #toolbar label { display: flex; gap: 4px; align-items: center; }
+    #status { margin-left: auto; opacity: 0.8; }
+    input[type="text"], select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    #records { flex: 1; overflow: auto; padding: 4px 10px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    .record { white-space: pre-wrap; word-break: break-all; }
+    .record .meta { opacity: 0.7; }
+    .record details { margin-left: 2em; }
+    .record summary { cursor: pointer; opacity: 0.9; }
+    .record pre { margin: 0; white-space: pre-wrap; font-family: inherit; }
+    .level-WARNING .level { color: var(--vscode-charts-yellow); }
+    .level-ERROR .level, .level-CRITICAL .level { color: var(--vscode-charts-red); }
+    .level-DEBUG .level { color: var(--vscode-charts-blue); }
+    .level-INFO .level { color: var(--vscode-charts-green); }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    .filtered { display: none; }
+  </style>
+</head>
+<body>
+  <div id="toolbar">
+    ${levelFilters.join("\n    ")}
+    <input id="logger" type="text" placeholder="Logger, e.g. odoo.addons.sale">
+    <select id="db"><option value="">All databases</option></select>
+    <label><input id="follow" type="checkbox" checked>Follow</label>
+    <button id="clear">Clear</button>
+    <span id="status"></span>
+  </div>
+  <div id="records"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const LEVELS = ${toScriptValue(LEVELS)};
+    const FRAME_REGEX = new RegExp(${toScriptValue(FRAME_REGEX.source)}, "g");
+    const MAX_RECORDS = 5000;
+    const container = document.getElementById("records");
+    const loggerInput = document.getElementById("logger");
+    const dbSelect = document.getElementById("db");
+    const follow = document.getElementById("follow");
+    const status = document.getElementById("status");
+    const elements = new Map();
+    const dbs = new Set();
+
+    const getLevel = (record) => (LEVELS.includes(record.level) ? record.level : "OTHER");
+
+    const appendText = (parent, text) => {
+      // The locations of the traceback frames are links to the file.
+      let index = 0;
+      for (const match of text.matchAll(FRAME_REGEX)) {
+        parent.append(text.slice(index, match.index));
+        const link = document.createElement("a");
+        link.textContent = match[0];
+        link.addEventListener("click", () => {
+          vscode.postMessage({ command: "openFile", file: match[1], line: parseInt(match[2]) });
+        });
+        parent.append(link);
+        index = match.index + match[0].length;
+      }
+      parent.append(text.slice(index));
+    };
+
+    const render = (record) => {
+      const element = elements.get(record.id) || document.createElement("div");
+      element.replaceChildren();
+      element.className = "record level-" + getLevel(record);
+      element.dataset.level = getLevel(record);
+      element.dataset.logger = record.logger;
+      element.dataset.db = record.db;
+      const header = document.createElement("div");
+      if (record.level) {
+        const meta = document.createElement("span");
+        meta.className = "meta";
+        meta.textContent = record.timestamp + " " + record.pid + " ";
+        const level = document.createElement("span");
+        level.className = "level";
+        level.textContent = record.level;
+        const source = document.createElement("span");
+        source.className = "meta";
+        source.textContent = " " + record.db + " " + record.logger + ": ";
+        header.append(meta, level, source);
+      }
+      appendText(header, record.message);
+      element.append(header);
+      if (record.details.length > 0) {
+        const details = document.createElement("details");
+        const summary = document.createElement("summary");
+        // The last line of a traceback is the exception.
+        summary.textContent = record.details[record.details.length - 1] + " (" + record.details.length + " lines)";
+        const pre = document.createElement("pre");
+        appendText(pre, record.details.join("\\n"));
+        details.append(summary, pre);
+        element.append(details);
+      }
+      if (record.db && record.db !== "?" && !dbs.has(record.db)) {
+        dbs.add(record.db);
+        const option = document.createElement("option");
+        option.value = option.textContent = record.db;
+        dbSelect.append(option);
+      }
+      return element;
+    };
+
+    const isShown = (element) => {
+      const levels = [...document.querySelectorAll("input[data-level]")]
+        .filter((input) => input.checked)
+        .map((input) => input.dataset.level);
+      const logger = loggerInput.value.trim().toLowerCase();
+      return (
+        levels.includes(element.dataset.level) &&
+        (!logger || element.dataset.logger.toLowerCase().includes(logger)) &&
+        (!dbSelect.value || element.dataset.db === dbSelect.value)
+      );
+    };
+
+    const updateStatus = () => {
+      const shown = [...elements.values()].filter((element) => !element.classList.contains("filtered"));
+      status.textContent = shown.length + " of " + elements.size + " records";
+    };
+
+    const applyFilters = () => {
+      for (const element of elements.values()) {
+        element.classList.toggle("filtered", !isShown(element));
+      }
+      updateStatus();
+    };
+
+    const update = (records) => {
+      for (const record of records) {
+        const isNew = !elements.has(record.id);
+        const element = render(record);
+        element.classList.toggle("filtered", !isShown(element));
+        if (isNew) {
+          elements.set(record.id, element);
+          container.append(element);
+        }
+      }
+      for (const [id, element] of elements) {
+        if (elements.size <= MAX_RECORDS) {
+          break;
+        }
+        element.remove();
+        elements.delete(id);
+      }
+      updateStatus();
+      if (follow.checked) {
+        container.scrollTop = container.scrollHeight;
+      }
+    };
+
+    const clear = () => {
+      elements.clear();
+      container.replaceChildren();
+      updateStatus();
+    };
+
+    for (const input of document.querySelectorAll("input[data-level]")) {
+      input.addEventListener("change", applyFilters);
+    }
+    loggerInput.addEventListener("input", applyFilters);
+    dbSelect.addEventListener("change", applyFilters);
+    document.getElementById("clear").addEventListener("click", clear);
+    window.addEventListener("message", (event) => {
+      if (event.data.command === "update") {
+        update(event.data.records);
+      } else if (event.data.command === "clear") {
+        clear();
+      }
+    });
+    update(${toScriptValue(records)});
+  </script>
+</body>
+</html>`;
+}
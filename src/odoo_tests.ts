@@ -0,0 +1,516 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as Result from "./Result";
+import { type ContextualUtils } from "./contextualUtils";
+import { DEBUG_PYTHON_NAME } from "./constants";
+import { getAddons, isValidDirectory, joinArgs } from "./helpers";
+import { ServerExit, ServerProcess } from "./server-process";
+import { ServerInstance, getPortFromArgs } from "./server-instances";
+import {
+  TestFailure,
+  TestLogEvent,
+  TestLogParser,
+  TestResult,
+  getTestModule,
+  parseTestFile,
+} from "./test-parser";
+
+type OdooTestData =
+  | { type: "addon"; addon: string; path: string }
+  | { type: "file"; addon: string; path: string }
+  | { type: "class"; addon: string; className: string }
+  | { type: "method"; addon: string; className: string; methodName: string };
+
+/**
+ * Returns the python files inside the given directory (recursively), except the `__init__.py` files.
+ */
+function getPythonFiles(directoryPath: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directoryPath, { withFileTypes: true })) {
+    const entryPath = path.join(directoryPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...getPythonFiles(entryPath));
+    } else if (entry.name.endsWith(".py") && entry.name !== "__init__.py") {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Reports the results of the test methods from the server log.
+ * A test method passes if it started and no failure is logged before the next one starts.
+ */
+class TestRunReporter {
+  private buffer = "";
+  private parser = new TestLogParser((event) => this.onEvent(event));
+  private current: vscode.TestItem | undefined;
+  private started = new Set<vscode.TestItem>();
+  private failed = new Set<vscode.TestItem>();
+
+  constructor(
+    private run: vscode.TestRun,
+    private tests: Map<string, vscode.TestItem>,
+    private getClassItem: (id: string) => vscode.TestItem | undefined
+  ) {}
+
+  write(output: string) {
+    this.run.appendOutput(output.replace(/\r?\n/g, "\r\n"));
+    this.buffer += output;
+    const end = this.buffer.lastIndexOf("\n");
+    if (end === -1) {
+      return;
+    }
+    this.parser.feed(this.buffer.slice(0, end));
+    this.buffer = this.buffer.slice(end + 1);
+  }
+
+  finish(): TestResult[] {
+    this.parser.feed(this.buffer);
+    this.buffer = "";
+    const results = this.parser.end();
+    this.conclude();
+    for (const test of this.tests.values()) {
+      if (!this.started.has(test) && !this.failed.has(test)) {
+        // Not installed in the database or filtered out by the tags.
+        this.run.skipped(test);
+      }
+    }
+    return results;
+  }
+
+  private onEvent(event: TestLogEvent) {
+    const test = this.tests.get(event.id);
+    if (event.type === "started") {
+      if (test) {
+        this.conclude();
+        this.current = test;
+        this.started.add(test);
+        this.run.started(test);
+      }
+    } else if (test) {
+      this.failed.add(test);
+      this.reportFailure(test, event.failure);
+    } else {
+      // E.g. failure in `setUpClass`, so the methods of the class are not run.
+      const classItem = this.getClassItem(event.id.replace(/\.\w+$/, ""));
+      if (classItem) {
+        this.reportFailure(classItem, event.failure);
+        classItem.children.forEach((child) => this.failed.add(child));
+      }
+    }
+  }
+
+  private reportFailure(test: vscode.TestItem, failure: TestFailure) {
+    const message = new vscode.TestMessage(failure.message);
+    const frame = [...failure.frames].reverse().find((f) => f.file === test.uri?.fsPath);
+    if (test.uri && frame) {
+      message.location = new vscode.Location(test.uri, new vscode.Position(frame.line - 1, 0));
+    }
+    if (failure.flavour === "FAIL") {
+      this.run.failed(test, message);
+    } else {
+      this.run.errored(test, message);
+    }
+  }
+
+  private conclude() {
+    if (this.current && !this.failed.has(this.current)) {
+      this.run.passed(this.current);
+    }
+    this.current = undefined;
+  }
+}
+
+/**
+ * Shows the tests of the addons in the Test Explorer: addons → test files → classes → test methods.
+ * Running (or debugging) a test item starts the server with the corresponding `--test-tags`.
+ */
+export class OdooTestController implements vscode.Disposable {
+  private controller: vscode.TestController;
+  private testData = new WeakMap<vscode.TestItem, OdooTestData>();
+  private disposables: vscode.Disposable[] = [];
+  private debugOutputListeners = new Map<string, (output: string) => void>();
+  private addonsPathsKey = "";
+
+  constructor(private utils: ContextualUtils) {
+    this.controller = vscode.tests.createTestController("odooDevTests", "Odoo Tests");
+    this.controller.resolveHandler = (item) => this.resolve(item);
+    this.controller.refreshHandler = () => this.refresh();
+    this.controller.createRunProfile(
+      "Run",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token, false),
+      true
+    );
+    this.controller.createRunProfile(
+      "Debug",
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.runTests(request, token, true),
+      true
+    );
+
+    const watcher = vscode.workspace.createFileSystemWatcher("**/tests/**/*.py");
+    this.disposables.push(
+      this.controller,
+      watcher,
+      watcher.onDidCreate((uri) => this.onDidChangeTestFile(uri)),
+      watcher.onDidChange((uri) => this.onDidChangeTestFile(uri)),
+      watcher.onDidDelete((uri) => this.onDidChangeTestFile(uri)),
+      utils.onDidRefreshTrees(() => {
+        // E.g. another worktree set is opened.
+        if (this.utils.getAddonsPaths().join(",") !== this.addonsPathsKey) {
+          this.refresh();
+        }
+      }),
+      vscode.debug.registerDebugAdapterTrackerFactory("python", {
+        createDebugAdapterTracker: (session) => {
+          const listener = this.debugOutputListeners.get(session.configuration.odooDevTestRunId);
+          if (!listener) {
+            return undefined;
+          }
+          return {
+            onDidSendMessage: (message) => {
+              if (message.type === "event" && message.event === "output") {
+                if (message.body?.category !== "telemetry") {
+                  listener(message.body.output);
+                }
+              }
+            },
+          };
+        },
+      })
+    );
+  }
+
+  dispose() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  refresh() {
+    return this.resolve(undefined);
+  }
+
+  private async resolve(item: vscode.TestItem | undefined) {
+    if (!item) {
+      return this.resolveAddons();
+    }
+    const data = this.testData.get(item);
+    if (data?.type === "addon") {
+      this.resolveAddon(item, data.addon, data.path);
+    } else if (data?.type === "file") {
+      this.resolveFile(item, data.addon, data.path);
+    }
+  }
+
+  private async resolveAddons() {
+    const addonsPaths = this.utils.getAddonsPaths();
+    this.addonsPathsKey = addonsPaths.join(",");
+    const items: vscode.TestItem[] = [];
+    for (const addonsPath of addonsPaths.filter(isValidDirectory)) {
+      for (const addon of await getAddons(addonsPath)) {
+        const addonPath = path.join(addonsPath, addon);
+        if (!isValidDirectory(path.join(addonPath, "tests"))) {
+          continue;
+        }
+        const item = this.controller.createTestItem(addon, addon, vscode.Uri.file(addonPath));
+        item.canResolveChildren = true;
+        this.testData.set(item, { type: "addon", addon, path: addonPath });
+        items.push(item);
+      }
+    }
+    this.controller.items.replace(items);
+  }
+
+  private resolveAddon(item: vscode.TestItem, addon: string, addonPath: string) {
+    const testsPath = path.join(addonPath, "tests");
+    const files = isValidDirectory(testsPath) ? getPythonFiles(testsPath) : [];
+    item.children.replace(
+      files.map((filePath) => {
+        const module = getTestModule(path.relative(addonPath, filePath));
+        const fileItem = this.controller.createTestItem(
+          `${addon}.${module}`,
+          path.relative(testsPath, filePath),
+          vscode.Uri.file(filePath)
+        );
+        fileItem.canResolveChildren = true;
+        this.testData.set(fileItem, { type: "file", addon, path: filePath });
+        return fileItem;
+      })
+    );
+  }
+
+  private resolveFile(item: vscode.TestItem, addon: string, filePath: string) {
+    const uri = vscode.Uri.file(filePath);
+    const classes = parseTestFile(fs.readFileSync(filePath, "utf-8")).filter(
+      (c) => c.methods.length > 0
+    );
+    item.children.replace(
+      classes.map((testClass) => {
+        const classItem = this.controller.createTestItem(
+          `${item.id}:${testClass.name}`,
+          testClass.name,
+          uri
+        );
+        classItem.range = new vscode.Range(testClass.startLine, 0, testClass.endLine, 0);
+        this.testData.set(classItem, { type: "class", addon, className: testClass.name });
+        classItem.children.replace(
+          testClass.methods.map((method) => {
+            const methodItem = this.controller.createTestItem(
+              `${classItem.id}.${method.name}`,
+              method.name,
+              uri
+            );
+            methodItem.range = new vscode.Range(method.startLine, 0, method.endLine, 0);
+            this.testData.set(methodItem, {
+              type: "method",
+              addon,
+              className: testClass.name,
+              methodName: method.name,
+            });
+            return methodItem;
+          })
+        );
+        return classItem;
+      })
+    );
+  }
+
+  private async onDidChangeTestFile(uri: vscode.Uri) {
+    let addonItem: vscode.TestItem | undefined;
+    this.controller.items.forEach((item) => {
+      const data = this.testData.get(item);
+      if (data?.type === "addon" && uri.fsPath.startsWith(`${data.path}${path.sep}tests`)) {
+        addonItem = item;
+      }
+    });
+    const addonData = addonItem && this.testData.get(addonItem);
+    if (!addonItem || addonData?.type !== "addon" || addonItem.children.size === 0) {
+      // Not resolved yet, the changes will be picked up when it gets resolved.
+      return;
+    }
+    const module = getTestModule(path.relative(addonData.path, uri.fsPath));
+    const fileItem = addonItem.children.get(`${addonData.addon}.${module}`);
+    if (fileItem && fs.existsSync(uri.fsPath)) {
+      this.resolveFile(fileItem, addonData.addon, uri.fsPath);
+    } else {
+      this.resolveAddon(addonItem, addonData.addon, addonData.path);
+    }
+  }
+
+  /**
+   * @param id of the form `<addon>.tests.<module>:<Class>`
+   */
+  private getClassItem(id: string) {
+    const [fileId] = id.split(":");
+    const addonItem = this.controller.items.get(fileId.split(".")[0]);
+    return addonItem?.children.get(fileId)?.children.get(id);
+  }
+
+  /**
+   * Resolves the children of the given items and returns their test methods.
+   */
+  private async collectTestMethods(
+    items: readonly vscode.TestItem[],
+    excluded: readonly vscode.TestItem[],
+    tests = new Map<string, vscode.TestItem>()
+  ) {
+    for (const item of items) {
+      if (excluded.includes(item)) {
+        continue;
+      }
+      if (item.canResolveChildren && item.children.size === 0) {
+        await this.resolve(item);
+      }
+      if (this.testData.get(item)?.type === "method") {
+        tests.set(item.id, item);
+      }
+      const children: vscode.TestItem[] = [];
+      item.children.forEach((child) => children.push(child));
+      await this.collectTestMethods(children, excluded, tests);
+    }
+    return tests;
+  }
+
+  /**
+   * Test tags of the item in the same form as the one given by `odooDev.getTestTag`.
+   */
+  private getTestTags(item: vscode.TestItem): string[] {
+    const data = this.testData.get(item);
+    switch (data?.type) {
+      case "addon":
+        return [data.addon];
+      case "file": {
+        const tags: string[] = [];
+        item.children.forEach((child) => tags.push(...this.getTestTags(child)));
+        return tags;
+      }
+      case "class":
+        return [`${data.addon}:${data.className}`];
+      case "method":
+        return [`${data.addon}:${data.className}.${data.methodName}`];
+      default:
+        return [];
+    }
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    debug: boolean
+  ) {
+    const run = this.controller.createTestRun(request);
+    try {
+      const include: vscode.TestItem[] = [];
+      if (request.include) {
+        include.push(...request.include);
+      } else {
+        this.controller.items.forEach((item) => include.push(item));
+      }
+      const exclude = request.exclude || [];
+      const tests = await this.collectTestMethods(include, exclude);
+      if (tests.size === 0) {
+        return;
+      }
+
+      if (!Result.check(await this.utils.ensureNoRunningServer({ waitForKill: true }))) {
+        for (const test of tests.values()) {
+          run.skipped(test);
+        }
+        return;
+      }
+
+      for (const test of tests.values()) {
+        run.enqueued(test);
+      }
+      const testTags = [
+        ...include.map((item) => this.getTestTags(item)).flat(),
+        ...exclude.map((item) => this.getTestTags(item).map((tag) => `-${tag}`)).flat(),
+      ];
+      const args = await this.utils.getStartServerArgs({ testTags });
+      const reporter = new TestRunReporter(run, tests, (id) => this.getClassItem(id));
+      this.utils.clearTestDiagnostics();
+      if (debug) {
+        await this.debugOdooBin(args, run, reporter, token);
+      } else {
+        await this.spawnOdooBin(args, run, reporter, token);
+      }
+      this.utils.reportTestResults(reporter.finish(), { notify: false });
+    } catch (error) {
+      run.appendOutput(`${(error as Error).message}\r\n`);
+      vscode.window.showErrorMessage((error as Error).message);
+    } finally {
+      run.end();
+    }
+  }
+
+  /**
+   * The process is a server instance without terminal, it's stopped like the other servers, e.g.
+   * when another server is started.
+   */
+  private async spawnOdooBin(
+    args: string[],
+    run: vscode.TestRun,
+    reporter: TestRunReporter,
+    token: vscode.CancellationToken
+  ) {
+    const python = await this.utils.getPythonPath();
+    const odooBin = this.utils.getOdooBinPath();
+    run.appendOutput(`${joinArgs([python, odooBin, ...args])}\r\n`);
+    const server = new ServerProcess(python, [odooBin, ...args], this.utils.getOdooPath());
+    const { serverInstances } = this.utils;
+    const instance: ServerInstance = {
+      name: this.utils.getServerInstanceName(),
+      port: getPortFromArgs(args) || (await this.utils.getDefaultPort()),
+      debug: false,
+      startedAt: Date.now(),
+      process: server,
+    };
+    server.onDidStart(() => serverInstances.add(instance));
+    server.onDidOutput((text) => reporter.write(text));
+    const cancellation = token.onCancellationRequested(() => server.stop());
+    try {
+      const exit = await new Promise<ServerExit>((resolve) => {
+        server.onDidStop(resolve);
+        server.open();
+      });
+      if (serverInstances.get(instance.name) === instance) {
+        serverInstances.remove(instance.name);
+      }
+      if (exit.code === null && exit.signal === null) {
+        throw new Error("Failed to start the server of the tests.");
+      }
+    } finally {
+      cancellation.dispose();
+      server.dispose();
+    }
+  }
+
+  /**
+   * The output of the debug session is captured (using `redirectOutput`) so that the results
+   * can be reported.
+   */
+  private async debugOdooBin(
+    args: string[],
+    run: vscode.TestRun,
+    reporter: TestRunReporter,
+    token: vscode.CancellationToken
+  ) {
+    const runId = `${Date.now()}`;
+    const config: vscode.DebugConfiguration = {
+      name: DEBUG_PYTHON_NAME,
+      type: "python",
+      request: "launch",
+      stopOnEntry: false,
+      console: "internalConsole",
+      redirectOutput: true,
+      cwd: this.utils.getOdooPath(),
+      python: await this.utils.getPythonPath(),
+      program: this.utils.getOdooBinPath(),
+      variablePresentation: {
+        all: "hide",
+      },
+      args,
+      odooDevTestRunId: runId,
+    };
+    run.appendOutput(`${JSON.stringify(config, null, 2).replace(/\n/g, "\r\n")}\r\n`);
+
+    this.debugOutputListeners.set(runId, (output) => reporter.write(output));
+    let session: vscode.DebugSession | undefined;
+    const disposables = [
+      vscode.debug.onDidStartDebugSession((s) => {
+        if (s.configuration.odooDevTestRunId === runId) {
+          session = s;
+        }
+      }),
+      token.onCancellationRequested(() => {
+        if (session) {
+          vscode.debug.stopDebugging(session);
+        }
+      }),
+    ];
+    try {
+      const terminated = new Promise<void>((resolve) => {
+        disposables.push(
+          vscode.debug.onDidTerminateDebugSession((s) => {
+            if (s.configuration.odooDevTestRunId === runId) {
+              resolve();
+            }
+          })
+        );
+      });
+      if (!(await vscode.debug.startDebugging(undefined, config))) {
+        throw new Error("Failed to start the debug session of the tests.");
+      }
+      await terminated;
+    } finally {
+      this.debugOutputListeners.delete(runId);
+      for (const disposable of disposables) {
+        disposable.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import * as vscode from "vscode";
+import * as net from "net";
+import { ServerProcess } from "./server-process";
+
+export type ServerInstance = {
+  /**
+   * Also the name of the terminal of the instance, e.g. `Odoo Server: 16.0`.
+   */
+  name: string;
+  port: number;
+  /**
+   * The server is started in a debug session instead of in the terminal.
+   */
+  debug: boolean;
+  /**
+   * The process of the server when it's not started in a debug session.
+   */
+  process?: ServerProcess;
+  startedAt: number;
+};
+
+const isPortFree = (port: number) => {
+  return new Promise<boolean>((resolve) => {
+    const server = net.createServer();
+    server.once("error", () => resolve(false));
+    server.once("listening", () => server.close(() => resolve(true)));
+    server.listen(port);
+  });
+};
+
+/**
+ * Whether a server accepts connections on the port of the local host.
+ */
+export const isPortOpen = (port: number) => {
+  return new Promise<boolean>((resolve) => {
+    const socket = net.connect({ port, host: "localhost" });
+    socket.setTimeout(1000);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once("error", () => resolve(false));
+  });
+};
+
+/**
+ * First port from `start` that can be listened to.
+ * @param exclude ports that are considered taken, e.g. the ones of the other instances
+ */
+export async function findFreePort(start: number, exclude: number[] = [], maxTries = 100) {
+  for (let port = start; port < start + maxTries; port++) {
+    if (!exclude.includes(port) && (await isPortFree(port))) {
+      return port;
+    }
+  }
+  throw new Error(`No free port found from ${start} to ${start + maxTries - 1}.`);
+}
+
+/**
+ * Port given to the server in the command line arguments, e.g. `--http-port=8070` or `-p 8070`.
+ * The last one wins, as in odoo.
+ */
+export function getPortFromArgs(args: string[]) {
+  let port: number | undefined;
+  for (const [i, arg] of args.entries()) {
+    const match = arg.match(/^--http-port=(\d+)$/);
+    if (match) {
+      port = parseInt(match[1]);
+    } else if ((arg === "--http-port" || arg === "-p") && /^\d+$/.test(args[i + 1] || "")) {
+      port = parseInt(args[i + 1]);
+    }
+  }
+  return port;
+}
+
+/**
+ * The running odoo servers, each with its own terminal and port.
+ * A status bar item is shown for each instance when multiple servers are allowed.
+ */
+export class ServerInstances implements vscode.Disposable {
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private instances = new Map<string, ServerInstance>();
+  private statusItems = new Map<string, vscode.StatusBarItem>();
+
+  constructor(private showStatusItems: () => boolean) {}
+
+  dispose() {
+    for (const instance of this.instances.values()) {
+      instance.process?.dispose();
+    }
+    for (const item of this.statusItems.values()) {
+      item.dispose();
+    }
+    this._onDidChange.dispose();
+  }
+
+  get(name: string) {
+    return this.instances.get(name);
+  }
+
+  /**
+   * Sorted by start time.
+   */
+  getAll() {
+    return [...this.instances.values()].sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  add(instance: ServerInstance) {
+    this.instances.set(instance.name, instance);
+    this.update();
+  }
+
+  remove(name: string) {
+    if (this.instances.delete(name)) {
+      this.update();
+    }
+  }
+
+  /**
+   * Resolves when the instance accepts requests: when its process logs that the HTTP service is
+   * running, or when its port responds for the instances started in the debugger.
+   * @returns false if cancelled
+   * @throws if the instance stops before being ready
+   */
+  waitUntilReady(name: string, token: vscode.CancellationToken) {
+    return new Promise<boolean>((resolve, reject) => {
+      const disposables: vscode.Disposable[] = [];
+      let timeout: NodeJS.Timeout | undefined;
+      let isSettled = false;
+      const settle = (cb: () => void) => {
+        if (!isSettled) {
+          isSettled = true;
+          clearTimeout(timeout);
+          disposables.forEach((disposable) => disposable.dispose());
+          cb();
+        }
+      };
+
+      const instance = this.get(name);
+      if (!instance) {
+        reject(new Error(`${name} is not running.`));
+        return;
+      }
+      const { process } = instance;
+      const check = async () => {
+        if (isSettled) {
+          return;
+        }
+        if (this.get(name) !== instance) {
+          settle(() => reject(new Error(`${name} stopped before being ready.`)));
+        } else if (process ? process.isReady : await isPortOpen(instance.port)) {
+          settle(() => resolve(true));
+        } else if (!process) {
+          timeout = setTimeout(check, 500);
+        }
+      };
+
+      disposables.push(token.onCancellationRequested(() => settle(() => resolve(false))));
+      if (process) {
+        disposables.push(
+          process.onDidBecomeReady(() => check()),
+          process.onDidStop(({ code, signal }) => {
+            const status = signal ? `signal ${signal}` : `code ${code}`;
+            const message = `${name} exited with ${status} during startup, check its terminal.`;
+            settle(() => reject(new Error(message)));
+          })
+        );
+      } else {
+        disposables.push(this.onDidChange(() => check()));
+      }
+      check();
+    });
+  }
+
+  /**
+   * Ports of the instances other than `name`.
+   */
+  getUsedPorts(name?: string) {
+    return this.getAll()
+      .filter((instance) => instance.name !== name)
+      .map((instance) => instance.port);
+  }
+
+  update() {
+    for (const [name, item] of this.statusItems) {
+      if (!this.instances.has(name) || !this.showStatusItems()) {
+        item.dispose();
+        this.statusItems.delete(name);
+      }
+    }
+    if (this.showStatusItems()) {
+      for (const instance of this.instances.values()) {
+        let item = this.statusItems.get(instance.name);
+        if (!item) {
+          item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+          this.statusItems.set(instance.name, item);
+        }
+        let icon = "$(server-process)";
+        if (instance.debug) {
+          icon = "$(debug)";
+        } else if (instance.process && !instance.process.isReady) {
+          icon = "$(loading~spin)";
+        }
+        item.text = `${icon} ${instance.name} :${instance.port}`;
+        item.tooltip = `Manage ${instance.name}`;
+        item.command = {
+          title: "Manage Server",
+          command: "odooDev.manageServerInstance",
+          arguments: [instance.name],
+        };
+        item.show();
+      }
+    }
+    this._onDidChange.fire();
+  }
+}
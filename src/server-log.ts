@@ -0,0 +1,124 @@
+// Parsing of the output of the odoo server into log records.
+
+import { LINE_BREAK_REGEX } from "./constants";
+
+export type LogRecord = {
+  id: number;
+  /**
+   * Empty for the output that is not a log record, e.g. prints or the prompt of pdb.
+   */
+  timestamp: string;
+  pid: string;
+  level: string;
+  /**
+   * `?` when the record is not related to a database.
+   */
+  db: string;
+  logger: string;
+  message: string;
+  /**
+   * Lines that follow the record until the next one, e.g. a traceback.
+   */
+  details: string[];
+};
+
+/**
+ * Format of odoo: `%(asctime)s %(pid)s %(levelname)s %(dbname)s %(name)s: %(message)s`.
+ */
+const LOG_RECORD_REGEX =
+  /^(\d{4}-\d\d-\d\d \d\d:\d\d:\d\d,\d+) (\d+) ([A-Z_]+) (\S+) ([^\s:]+): ?(.*)$/;
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*m/g;
+/**
+ * Location of a python traceback frame, e.g. `File "/path/odoo/models.py", line 42, in write`.
+ */
+export const FRAME_REGEX = /File "(.+?)", line (\d+)/;
+
+export function parseLogLine(line: string): Omit<LogRecord, "id" | "details"> | undefined {
+  const match = line.replace(ANSI_ESCAPE_REGEX, "").match(LOG_RECORD_REGEX);
+  if (!match) {
+    return;
+  }
+  const [, timestamp, pid, level, db, logger, message] = match;
+  return { timestamp, pid, level, db, logger, message };
+}
+
+/**
+ * The records of the output of a server, only the last `maxRecords` are kept.
+ * - The output can be fed in chunks that don't end with a line break.
+ * - A record is complete, e.g. with its whole traceback, when the next one starts or when the log
+ *   ends. `onDidComplete` is then called with it.
+ */
+export class ServerLog {
+  private _records: LogRecord[] = [];
+  private nextId = 1;
+  private pendingLine = "";
+
+  constructor(
+    private maxRecords = 5000,
+    private onDidComplete: (record: LogRecord) => void = () => {}
+  ) {}
+
+  get records(): readonly LogRecord[] {
+    return this._records;
+  }
+
+  /**
+   * @returns the records that are new or that received more lines
+   */
+  feed(text: string): LogRecord[] {
+    const lines = (this.pendingLine + text).split(LINE_BREAK_REGEX);
+    this.pendingLine = lines.pop() || "";
+    const changed = new Set<LogRecord>();
+    for (const line of lines) {
+      const record = this.processLine(line);
+      if (record) {
+        changed.add(record);
+      }
+    }
+    if (this._records.length > this.maxRecords) {
+      this._records = this._records.slice(-this.maxRecords);
+    }
+    return [...changed].filter((record) => this._records.includes(record));
+  }
+
+  /**
+   * Called when the server stopped, its last record is complete.
+   * @returns the records that are new or that received more lines
+   */
+  end(): LogRecord[] {
+    const changed = this.feed("\n");
+    const last = this._records[this._records.length - 1];
+    if (last) {
+      this.onDidComplete(last);
+    }
+    return changed;
+  }
+
+  private processLine(line: string) {
+    const text = line.replace(ANSI_ESCAPE_REGEX, "");
+    if (text.trim() === "") {
+      return;
+    }
+    const parsed = parseLogLine(text);
+    const last = this._records[this._records.length - 1];
+    if (parsed || !last) {
+      if (last) {
+        this.onDidComplete(last);
+      }
+      // The output before the first record, e.g. a warning of python, is a record without level.
+      const header = parsed || {
+        timestamp: "",
+        pid: "",
+        level: "",
+        db: "",
+        logger: "",
+        message: text,
+      };
+      const record: LogRecord = { id: this.nextId++, ...header, details: [] };
+      this._records.push(record);
+      return record;
+    }
+    last.details.push(text);
+    return last;
+  }
+}
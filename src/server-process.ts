@@ -0,0 +1,201 @@
+import * as vscode from "vscode";
+import * as child_process from "child_process";
+import { joinArgs } from "./helpers";
+
+/**
+ * Logged by odoo when it accepts requests, in both the threaded and the prefork modes.
+ */
+const READY_REGEX = /HTTP service \(werkzeug\) running on/;
+
+const STOP_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGKILL"];
+
+export type ServerExit = { code: number | null; signal: NodeJS.Signals | null };
+
+/**
+ * An `odoo-bin` process shown in a terminal.
+ * - The process is spawned when the terminal is opened, its output is written to the terminal.
+ * - `onDidStart`, `onDidBecomeReady` and `onDidStop` follow the life of the process. It's ready when
+ *   the HTTP service is running.
+ * - `stop` sends SIGINT, then SIGTERM and SIGKILL if the process is still running after
+ *   `stopTimeout`. The signals are sent to the process group so that the workers are stopped too.
+ * - The input of the terminal is sent to the process line by line, e.g. for `pdb`. Ctrl+C stops the
+ *   server, closing the terminal as well.
+ */
+export class ServerProcess implements vscode.Pseudoterminal {
+  private _onDidWrite = new vscode.EventEmitter<string>();
+  readonly onDidWrite: vscode.Event<string> = this._onDidWrite.event;
+  private _onDidClose = new vscode.EventEmitter<void>();
+  readonly onDidClose: vscode.Event<void> = this._onDidClose.event;
+
+  private _onDidStart = new vscode.EventEmitter<number>();
+  /**
+   * Fired with the pid of the process.
+   */
+  readonly onDidStart: vscode.Event<number> = this._onDidStart.event;
+  private _onDidBecomeReady = new vscode.EventEmitter<void>();
+  readonly onDidBecomeReady: vscode.Event<void> = this._onDidBecomeReady.event;
+  private _onDidStop = new vscode.EventEmitter<ServerExit>();
+  readonly onDidStop: vscode.Event<ServerExit> = this._onDidStop.event;
+  private _onDidOutput = new vscode.EventEmitter<string>();
+  readonly onDidOutput: vscode.Event<string> = this._onDidOutput.event;
+
+  private child: child_process.ChildProcess | undefined;
+  private exited: Promise<void> = Promise.resolve();
+  private stopTimer: NodeJS.Timeout | undefined;
+  private isStopping = false;
+  private hasExited = false;
+  private pendingLine = "";
+  private inputLine = "";
+  private _isRunning = false;
+  private _isReady = false;
+
+  constructor(
+    private command: string,
+    private args: string[],
+    private cwd: string,
+    private stopTimeout = 5000
+  ) {}
+
+  get pid() {
+    return this.child?.pid;
+  }
+
+  get isRunning() {
+    return this._isRunning;
+  }
+
+  get isReady() {
+    return this._isReady;
+  }
+
+  open() {
+    this.write(`${joinArgs([this.command, ...this.args])}\n\n`);
+    const child = child_process.spawn(this.command, this.args, {
+      cwd: this.cwd,
+      // The output of python is buffered when it's not a tty, e.g. the prompt of pdb.
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      env: { ...process.env, PYTHONUNBUFFERED: "1" },
+      detached: true,
+    });
+    this.child = child;
+    this.exited = new Promise((resolve) => {
+      child.on("error", (error) => {
+        this.write(`${error.message}\n`);
+        // Without pid, the process failed to spawn. Otherwise it still exits, e.g. after a failed
+        // kill.
+        if (child.pid === undefined) {
+          this.onExit({ code: null, signal: null });
+          resolve();
+        }
+      });
+      child.on("exit", (code, signal) => {
+        this.onExit({ code, signal });
+        resolve();
+      });
+    });
+    child.stdout?.on("data", (data: Buffer) => this.onOutput(data.toString()));
+    child.stderr?.on("data", (data: Buffer) => this.onOutput(data.toString()));
+    if (child.pid !== undefined) {
+      this._isRunning = true;
+      this._onDidStart.fire(child.pid);
+    }
+  }
+
+  close() {
+    this.stop();
+  }
+
+  handleInput(data: string) {
+    if (data === "\x03") {
+      this.write("^C\n");
+      this.stop();
+    } else if (data === "\r") {
+      this.write("\n");
+      this.child?.stdin?.write(`${this.inputLine}\n`);
+      this.inputLine = "";
+    } else if (data === "\x7f") {
+      if (this.inputLine.length > 0) {
+        this.inputLine = this.inputLine.slice(0, -1);
+        this._onDidWrite.fire("\b \b");
+      }
+    } else if (!data.startsWith("\x1b")) {
+      this.inputLine += data;
+      this.write(data);
+    }
+  }
+
+  /**
+   * Resolves when the process exited.
+   */
+  stop() {
+    if (this._isRunning && !this.isStopping) {
+      this.isStopping = true;
+      const escalate = (index: number) => {
+        this.kill(STOP_SIGNALS[index]);
+        if (index + 1 < STOP_SIGNALS.length) {
+          this.stopTimer = setTimeout(() => escalate(index + 1), this.stopTimeout);
+        }
+      };
+      escalate(0);
+    }
+    return this.exited;
+  }
+
+  dispose() {
+    this.stop();
+    for (const emitter of [
+      this._onDidWrite,
+      this._onDidClose,
+      this._onDidStart,
+      this._onDidBecomeReady,
+      this._onDidStop,
+      this._onDidOutput,
+    ]) {
+      emitter.dispose();
+    }
+  }
+
+  private kill(signal: NodeJS.Signals) {
+    const pid = this.child?.pid;
+    if (pid === undefined) {
+      return;
+    }
+    try {
+      process.kill(-pid, signal);
+    } catch (error) {
+      // The process is not a group leader, e.g. it failed to be detached.
+      this.child?.kill(signal);
+    }
+  }
+
+  private write(text: string) {
+    this._onDidWrite.fire(text.replace(/\r?\n/g, "\r\n"));
+  }
+
+  private onOutput(text: string) {
+    this.write(text);
+    this._onDidOutput.fire(text);
+    if (!this._isReady) {
+      const lines = (this.pendingLine + text).split("\n");
+      this.pendingLine = lines.pop() || "";
+      if (lines.some((line) => READY_REGEX.test(line))) {
+        this._isReady = true;
+        this.pendingLine = "";
+        this._onDidBecomeReady.fire();
+      }
+    }
+  }
+
+  private onExit(exit: ServerExit) {
+    if (this.hasExited) {
+      return;
+    }
+    this.hasExited = true;
+    clearTimeout(this.stopTimer);
+    this._isRunning = false;
+    this._isReady = false;
+    const status = exit.signal ? `signal ${exit.signal}` : `code ${exit.code}`;
+    this.write(`\nThe server exited with ${status}.\n`);
+    this._onDidStop.fire(exit);
+  }
+}
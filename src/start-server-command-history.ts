@@ -21,6 +21,10 @@ export const init = (globalState: ExtensionContext["globalState"]) => {
     }
   };
 
+  const remove = (terminalName: string, command: string) => {
+    _remove(items, `${terminalName} :: ${command}`);
+  };
+
   const flush = () => {
     return globalState.update("odooDev.startServerCommandHistory", items);
   };
@@ -34,6 +38,7 @@ export const init = (globalState: ExtensionContext["globalState"]) => {
 
   return {
     push,
+    remove,
     flush,
     top,
     getItems() {
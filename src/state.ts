@@ -1,126 +1,208 @@
 // Runtime state is stored in this file.
-// TODO: reactive state?
 
 import * as vscode from "vscode";
 import { BASE_BRANCH_REGEX, DEV_BRANCH_REGEX, LINE_BREAK_REGEX } from "./constants";
-import { ContextualUtils } from "./contextualUtils";
-import { runShellCommand } from "./helpers";
+import { Repository } from "./dependencies/git";
+import { debounce, runShellCommand } from "./helpers";
 
 const debugSessions: vscode.DebugSession[] = [];
-const baseBranches: string[] = [];
-const devBranches: Record<string, { name: string }[]> = {};
 
 export function getDebugSessions() {
   return debugSessions;
 }
 
-export async function initBaseBranches(utils: ContextualUtils) {
-  const result = await runShellCommand("git branch", {
-    cwd: utils.getRepoPath(utils.odevRepos.odoo),
-  });
-  const extractedBranches = extractBranchList(result);
-  const branches = extractedBranches.filter((name) => BASE_BRANCH_REGEX.test(name));
-  for (const branch of branches) {
-    baseBranches.push(branch);
+export type DevBranch = {
+  name: string;
+  /**
+   * Names of the repositories where the branch exists locally.
+   */
+  repos: string[];
+};
+
+export type BranchMetadata = {
+  createdAt?: number;
+  lastCheckout?: number;
+  pullRequests?: string[];
+};
+
+const METADATA_KEY = "odooDev.branchMetadata";
+
+/**
+ * Keeps track of the base and dev branches of the odoo dev repositories.
+ * - The branches are re-scanned from the repositories (e.g. after creating a branch from the terminal).
+ * - Subscribe to `onDidChange` to be notified when the branches or their metadata changed.
+ * - The metadata of the branches are persisted in the global state.
+ */
+export class BranchStore {
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  private baseBranches: string[] = [];
+  private devBranches: Record<string, DevBranch[]> = {};
+  /**
+   * Base branches that are added without being in the odoo repo (e.g. when fetching a dev branch
+   * without its base), they are kept between scans.
+   */
+  private addedBaseBranches = new Set<string>();
+  private metadata: Record<string, BranchMetadata>;
+
+  readonly scheduleScan = debounce(() => this.scan(), 1000);
+
+  constructor(
+    private globalState: vscode.ExtensionContext["globalState"],
+    private getRepos: () => [name: string, repo: Repository][]
+  ) {
+    this.metadata = globalState.get<Record<string, BranchMetadata>>(METADATA_KEY) || {};
   }
-}
 
-export async function initDevBranches(utils: ContextualUtils): Promise<void> {
-  const odooRepo = utils.getRepoPath(utils.odevRepos.odoo);
-  const upgradeRepo = utils.odevRepos.upgrade
-    ? utils.getRepoPath(utils.odevRepos.upgrade)
-    : undefined;
-
-  const branchSet = new Set<string>();
+  async scan(): Promise<void> {
+    const repos = this.getRepos();
+    const branchesPerRepo = await Promise.all(
+      repos.map(async ([name, repo]) => {
+        try {
+          return [name, await getBranches(repo.rootUri.fsPath)] as const;
+        } catch (error) {
+          return [name, []] as const;
+        }
+      })
+    );
+
+    const baseBranches: string[] = [];
+    const devBranches: Record<string, DevBranch[]> = {};
+    for (const [repoName, branches] of branchesPerRepo) {
+      for (const branch of branches) {
+        if (repoName === "odoo" && BASE_BRANCH_REGEX.test(branch)) {
+          baseBranches.push(branch);
+        }
+        const check = branch.match(DEV_BRANCH_REGEX);
+        if (check) {
+          const base = check[1].replace(/[-_]$/, "");
+          if (!(base in devBranches)) {
+            devBranches[base] = [];
+          }
+          const devBranch = devBranches[base].find((b) => b.name === branch);
+          if (devBranch) {
+            devBranch.repos.push(repoName);
+          } else {
+            devBranches[base].push({ name: branch, repos: [repoName] });
+          }
+        }
+      }
+    }
+    for (const base of this.addedBaseBranches) {
+      if (!baseBranches.includes(base)) {
+        baseBranches.push(base);
+      }
+    }
 
-  for (const branch of [...(await getBranches(odooRepo))]) {
-    if (DEV_BRANCH_REGEX.test(branch)) {
-      branchSet.add(branch);
+    const changed =
+      JSON.stringify([baseBranches, devBranches]) !==
+      JSON.stringify([this.baseBranches, this.devBranches]);
+    this.baseBranches = baseBranches;
+    this.devBranches = devBranches;
+    if (changed) {
+      this._onDidChange.fire();
     }
   }
 
-  for (const [, repo] of Object.entries(utils.odevRepos.custom)) {
-    for (const branch of [...(await getBranches(utils.getRepoPath(repo)))]) {
-      if (DEV_BRANCH_REGEX.test(branch)) {
-        branchSet.add(branch);
-      }
+  getBaseBranches() {
+    return this.baseBranches;
+  }
+
+  addBaseBranch(branch: string) {
+    this.addedBaseBranches.add(branch);
+    if (!this.baseBranches.includes(branch)) {
+      this.baseBranches.push(branch);
+      this._onDidChange.fire();
     }
   }
 
-  for (const branch of [...(!upgradeRepo ? [] : await getBranches(upgradeRepo))]) {
-    if (DEV_BRANCH_REGEX.test(branch)) {
-      branchSet.add(branch);
+  removeBaseBranch(branch: string) {
+    this.addedBaseBranches.delete(branch);
+    const index = this.baseBranches.indexOf(branch);
+    if (index !== -1) {
+      this.baseBranches.splice(index, 1);
+      this._onDidChange.fire();
     }
   }
 
-  for (const branch of branchSet) {
-    const check = branch.match(DEV_BRANCH_REGEX);
-    if (check) {
-      const base = check[1].replace(/[-_]$/, "");
-      if (!(base in devBranches)) {
-        devBranches[base] = [];
+  getDevBranches(base: string): DevBranch[] {
+    return this.devBranches[base] || [];
+  }
+
+  getDevBranch(name: string): DevBranch | undefined {
+    for (const branches of Object.values(this.devBranches)) {
+      const branch = branches.find((b) => b.name === name);
+      if (branch) {
+        return branch;
       }
-      devBranches[base].push({ name: branch });
     }
   }
-}
-
-export function getBaseBranches() {
-  return baseBranches;
-}
 
-export function addBaseBranch(branch: string) {
-  if (!baseBranches.includes(branch)) {
-    baseBranches.push(branch);
+  addDevBranch(base: string, branch: string) {
+    if (!(base in this.devBranches)) {
+      this.devBranches[base] = [];
+    }
+    if (!this.devBranches[base].some((b) => b.name === branch)) {
+      this.devBranches[base].push({ name: branch, repos: [] });
+      this._onDidChange.fire();
+    }
+    // The repos where the branch is actually created are known after scanning.
+    this.scheduleScan();
   }
-}
 
-export function removeBaseBranch(branch: string) {
-  const index = baseBranches.indexOf(branch);
-  if (index !== -1) {
-    baseBranches.splice(index, 1);
+  async removeDevBranch(base: string, branch: string) {
+    if (base in this.devBranches) {
+      const index = this.devBranches[base].findIndex((b) => b.name === branch);
+      if (index !== -1) {
+        this.devBranches[base].splice(index, 1);
+        this._onDidChange.fire();
+      }
+    }
+    if (branch in this.metadata) {
+      delete this.metadata[branch];
+      await this.globalState.update(METADATA_KEY, this.metadata);
+    }
   }
-}
 
-export function getDevBranches(base: string) {
-  return devBranches[base] || [];
-}
+  devBranchExists({ base, name }: { base: string; name: string }): boolean {
+    return exists(this.getDevBranches(base), (dv) => dv.name === name);
+  }
 
-export function addDevBranch(base: string, branch: string) {
-  if (!(base in devBranches)) {
-    devBranches[base] = [];
+  getMetadata(branch: string): BranchMetadata {
+    return this.metadata[branch] || {};
   }
-  if (!devBranches[base].some((b) => b.name === branch)) {
-    devBranches[base].push({ name: branch });
+
+  async updateMetadata(branch: string, values: BranchMetadata) {
+    this.metadata[branch] = { ...this.getMetadata(branch), ...values };
+    await this.globalState.update(METADATA_KEY, this.metadata);
+    this._onDidChange.fire();
   }
-}
 
-export function removeDevBranch(base: string, branch: string) {
-  if (base in devBranches) {
-    const index = devBranches[base].findIndex((b) => b.name === branch);
-    if (index !== -1) {
-      devBranches[base].splice(index, 1);
+  async addPullRequest(branch: string, url: string) {
+    const pullRequests = this.getMetadata(branch).pullRequests || [];
+    if (!pullRequests.includes(url)) {
+      await this.updateMetadata(branch, { pullRequests: [...pullRequests, url] });
     }
   }
 }
 
-export function devBranchExists({ base, name }: { base: string; name: string }): boolean {
-  const devBranches = getDevBranches(base);
-  return exists(devBranches, (dv) => dv.name === name);
-}
-
 //#region helpers
 
 function extractBranchList(output: string): string[] {
   return output
     .trim()
     .split(LINE_BREAK_REGEX)
-    .map((line) => line.replace("*", "").trim());
+    .map((line) => line.trim())
+    .filter(Boolean);
 }
 
 async function getBranches(repoPath: string): Promise<string[]> {
-  const odooOutput = await runShellCommand("git branch", { cwd: repoPath });
-  return extractBranchList(odooOutput);
+  // Using the format avoids the `*` and `+` markers of the checked out branches.
+  const output = await runShellCommand("git branch --format='%(refname:short)'", {
+    cwd: repoPath,
+  });
+  return extractBranchList(output);
 }
 
 function exists<T>(items: T[], pred: (x: T) => boolean): boolean {
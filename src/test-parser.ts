@@ -0,0 +1,279 @@
+// Parsing of the odoo test files and of the test logs of the server.
+
+import { LINE_BREAK_REGEX } from "./constants";
+
+export type TestMethodInfo = {
+  name: string;
+  /**
+   * Offset of the method name in the file content.
+   */
+  index: number;
+  startLine: number;
+  endLine: number;
+};
+
+export type TestClassInfo = TestMethodInfo & {
+  methods: TestMethodInfo[];
+};
+
+const CLASS_REGEX = /^class\s+(\w+)\s*[(:]/;
+const TEST_METHOD_REGEX = /^(\s+)def\s+(test\w*)\s*\(/;
+
+/**
+ * Finds the top-level classes and their `test*` methods.
+ * Classes without test methods are included because their test methods can be inherited.
+ */
+export function parseTestFile(content: string): TestClassInfo[] {
+  const classes: TestClassInfo[] = [];
+  let currentClass: TestClassInfo | undefined;
+  let currentMethod: TestMethodInfo | undefined;
+  let lastNonEmptyLine = 0;
+  let offset = 0;
+
+  const closeMethod = () => {
+    if (currentMethod) {
+      currentMethod.endLine = lastNonEmptyLine;
+      currentMethod = undefined;
+    }
+  };
+  const closeClass = () => {
+    closeMethod();
+    if (currentClass) {
+      currentClass.endLine = lastNonEmptyLine;
+      currentClass = undefined;
+    }
+  };
+
+  const lines = content.split("\n");
+  for (const [lineNumber, line] of lines.entries()) {
+    const isEmpty = line.trim() === "" || line.trimStart().startsWith("#");
+    if (!isEmpty && !/^\s/.test(line)) {
+      // A top-level statement ends the current class.
+      closeClass();
+      const classMatch = line.match(CLASS_REGEX);
+      if (classMatch) {
+        const [, name] = classMatch;
+        currentClass = {
+          name,
+          index: offset + line.indexOf(name, "class".length),
+          startLine: lineNumber,
+          endLine: lineNumber,
+          methods: [],
+        };
+        classes.push(currentClass);
+      }
+    } else if (currentClass) {
+      const methodMatch = line.match(TEST_METHOD_REGEX);
+      if (methodMatch) {
+        closeMethod();
+        const [, indent, name] = methodMatch;
+        currentMethod = {
+          name,
+          index: offset + line.indexOf(name, indent.length),
+          startLine: lineNumber,
+          endLine: lineNumber,
+        };
+        currentClass.methods.push(currentMethod);
+      } else if (currentMethod && /^\s+(async\s+)?def\s/.test(line)) {
+        // A non-test method of the class.
+        const methodIndent = lines[currentMethod.startLine].search(/\S/);
+        if (line.search(/\S/) <= methodIndent) {
+          closeMethod();
+        }
+      }
+    }
+    if (!isEmpty) {
+      lastNonEmptyLine = lineNumber;
+    }
+    offset += line.length + 1;
+  }
+  closeClass();
+  return classes;
+}
+
+/**
+ * Returns the class and the test method that contain the given line.
+ */
+export function getTestAt(classes: TestClassInfo[], line: number) {
+  const testClass = classes.find((c) => c.startLine <= line && line <= c.endLine);
+  const testMethod = testClass?.methods.find((m) => m.startLine <= line && line <= m.endLine);
+  return { testClass, testMethod };
+}
+
+/**
+ * Returns the module of the test file relative to its addon, e.g. `tests.test_foo`.
+ */
+export function getTestModule(relativePath: string) {
+  return relativePath.replace(/\.py$/, "").split(/[\\/]/).join(".");
+}
+
+export type TracebackFrame = { file: string; line: number; name: string };
+
+export type TestFailure = {
+  flavour: "FAIL" | "ERROR";
+  /**
+   * The whole log record, including the traceback.
+   */
+  message: string;
+  /**
+   * Last line of the traceback, e.g. `AssertionError: 1 != 2`.
+   */
+  error: string;
+  frames: TracebackFrame[];
+};
+
+export type TestResult = {
+  /**
+   * Of the form `<addon>.tests.<module>:<Class>.<method>`.
+   */
+  id: string;
+  addon: string;
+  /**
+   * Module of the test relative to its addon, e.g. `tests.test_sale`.
+   */
+  module: string;
+  className: string;
+  /**
+   * Can be `setUpClass` when the failure happened before running the test methods of the class.
+   */
+  methodName: string;
+  failures: TestFailure[];
+};
+
+export type TestLogEvent =
+  | { type: "started"; id: string }
+  | { type: "failed"; id: string; failure: TestFailure };
+
+const LOG_RECORD_REGEX = /^\d{4}-\d\d-\d\d \d\d:\d\d:\d\d,\d+ \d+ /;
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*m/g;
+const FRAME_REGEX = /^\s*File "(.+)", line (\d+), in (\S+)/;
+
+/**
+ * Logger names of the tests are the python module of the test, e.g. `odoo.addons.sale.tests.test_sale`.
+ * Failures are logged as `FAIL: TestSale.test_01` or, in older versions,
+ * `FAIL: test_01 (odoo.addons.sale.tests.test_sale.TestSale)`.
+ */
+const TEST_LOG_REGEX =
+  /\s(?:odoo\.addons\.)?(\w+(?:\.\w+)*\.tests(?:\.\w+)*):\s(?:Starting\s+(\w+)\.(\w+)|(FAIL|ERROR):\s+(?:(\w+)\.(\w+)|(\w+)\s+\([\w.]+\.(\w+)\)))/;
+
+/**
+ * Collects the results of the test methods from the server log.
+ * - Feed it with complete lines.
+ * - A failure is only known once its traceback ends, that is, when the next log record starts.
+ */
+export class TestLogParser {
+  private results = new Map<string, TestResult>();
+  private failure: { result: TestResult; flavour: "FAIL" | "ERROR"; lines: string[] } | undefined;
+
+  constructor(private onEvent: (event: TestLogEvent) => void = () => {}) {}
+
+  feed(text: string) {
+    for (const line of text.split(LINE_BREAK_REGEX)) {
+      this.processLine(line.replace(ANSI_ESCAPE_REGEX, ""));
+    }
+  }
+
+  end(): TestResult[] {
+    this.closeFailure();
+    return [...this.results.values()];
+  }
+
+  private getResult(module: string, className: string, methodName: string) {
+    const id = `${module}:${className}.${methodName}`;
+    let result = this.results.get(id);
+    if (!result) {
+      const [addon, ...rest] = module.split(".");
+      result = { id, addon, module: rest.join("."), className, methodName, failures: [] };
+      this.results.set(id, result);
+    }
+    return result;
+  }
+
+  private processLine(line: string) {
+    if (LOG_RECORD_REGEX.test(line)) {
+      this.closeFailure();
+    } else if (this.failure) {
+      this.failure.lines.push(line);
+      return;
+    }
+    const match = line.match(TEST_LOG_REGEX);
+    if (!match) {
+      return;
+    }
+    const [, module, startedClass, startedMethod, flavour, ...failed] = match;
+    if (startedClass) {
+      const result = this.getResult(module, startedClass, startedMethod);
+      this.onEvent({ type: "started", id: result.id });
+    } else {
+      const [failedClass, failedMethod, oldFailedMethod, oldFailedClass] = failed;
+      const result = this.getResult(
+        module,
+        failedClass || oldFailedClass,
+        failedMethod || oldFailedMethod
+      );
+      this.failure = { result, flavour: flavour as "FAIL" | "ERROR", lines: [line] };
+    }
+  }
+
+  private closeFailure() {
+    if (!this.failure) {
+      return;
+    }
+    const { result, flavour, lines } = this.failure;
+    this.failure = undefined;
+    const frames: TracebackFrame[] = [];
+    for (const line of lines) {
+      const match = line.match(FRAME_REGEX);
+      if (match) {
+        frames.push({ file: match[1], line: parseInt(match[2]), name: match[3] });
+      }
+    }
+    const error = [...lines].reverse().find((line) => line.trim() !== "") || "";
+    const failure = { flavour, message: lines.join("\n"), error: error.trim(), frames };
+    result.failures.push(failure);
+    this.onEvent({ type: "failed", id: result.id, failure });
+  }
+}
+
+export function parseTestResults(log: string): TestResult[] {
+  const parser = new TestLogParser();
+  parser.feed(log);
+  return parser.end();
+}
+
+/**
+ * Test tags that select exactly the failed tests, e.g. `sale:TestSale.test_01`.
+ * Failures outside of the test methods (e.g. in `setUpClass`) select the whole class.
+ */
+export function getFailedTestTags(results: TestResult[]) {
+  const tags = results
+    .filter((r) => r.failures.length > 0)
+    .map((r) =>
+      r.methodName.startsWith("test")
+        ? `${r.addon}:${r.className}.${r.methodName}`
+        : `${r.addon}:${r.className}`
+    );
+  return [...new Set(tags)];
+}
+
+/**
+ * E.g. "3 failed, 41 passed in point_of_sale; 2 passed in sale"
+ */
+export function summarizeTestResults(results: TestResult[]) {
+  const counts = new Map<string, { failed: number; passed: number }>();
+  for (const result of results) {
+    const count = counts.get(result.addon) || { failed: 0, passed: 0 };
+    if (result.failures.length > 0) {
+      count.failed++;
+    } else {
+      count.passed++;
+    }
+    counts.set(result.addon, count);
+  }
+  return [...counts.entries()]
+    .map(([addon, { failed, passed }]) => {
+      const parts = [...(failed > 0 ? [`${failed} failed`] : []), `${passed} passed`];
+      return `${parts.join(", ")} in ${addon}`;
+    })
+    .join("; ");
+}
@@ -1,5 +1,23 @@
 import * as assert from "assert";
-import { inferBaseBranch } from "../../helpers";
+import { ChildProcess } from "child_process";
+import { inferBaseBranch, joinArgs, splitArgs } from "../../helpers";
+import { parseManifest } from "../../manifest";
+import { DependencyGraph, layoutDependencyGraph } from "../../dependency-graph";
+import { parseAddonsPath, sortCustomRepos } from "../../addons-paths";
+import { mergeOverrides, toArgs } from "../../config-overrides";
+import { getPortFromArgs } from "../../server-instances";
+import { ServerLog, parseLogLine } from "../../server-log";
+import { LoadingError, LoadingErrorParser } from "../../loading-errors";
+import { FileDiffStat, getChangedAddons, parseNumstat } from "../../changed-addons";
+import { getTourTests, getTourUrl, parseTourDefinitions } from "../../tours";
+import { ServerExit, ServerProcess } from "../../server-process";
+import {
+  getFailedTestTags,
+  getTestAt,
+  parseTestFile,
+  parseTestResults,
+  summarizeTestResults,
+} from "../../test-parser";
 
 suite("Extension Test Suite", () => {
   test("inferBaseBranch test", () => {
@@ -10,4 +28,524 @@ suite("Extension Test Suite", () => {
     assert.strictEqual(inferBaseBranch("17.0-asdsdaf"), "17.0");
     assert.strictEqual(inferBaseBranch("17.0_asdfsd"), "17.0");
   });
+
+  test("parseTestFile test", () => {
+    const content = [
+      "from odoo.tests import common, tagged",
+      "",
+      "@tagged('post_install', '-at_install')",
+      "class TestFoo(common.TransactionCase):",
+      "    def setUp(self):",
+      "        super().setUp()",
+      "",
+      "    def test_01_foo(self):",
+      "        self.assertTrue(True)",
+      "",
+      "    def _helper(self):",
+      "        pass",
+      "",
+      "    def test_02_bar(self):",
+      "        pass",
+      "",
+      "def test_not_a_method():",
+      "    pass",
+    ].join("\n");
+    const classes = parseTestFile(content);
+    assert.strictEqual(classes.length, 1);
+    const [testClass] = classes;
+    assert.strictEqual(testClass.name, "TestFoo");
+    assert.deepStrictEqual(
+      testClass.methods.map((m) => [m.name, m.startLine, m.endLine]),
+      [
+        ["test_01_foo", 7, 8],
+        ["test_02_bar", 13, 14],
+      ]
+    );
+    assert.strictEqual(content.slice(testClass.methods[0].index).indexOf("test_01_foo"), 0);
+    assert.strictEqual(getTestAt(classes, 8).testMethod?.name, "test_01_foo");
+    assert.strictEqual(getTestAt(classes, 11).testMethod, undefined);
+    assert.strictEqual(getTestAt(classes, 16).testClass, undefined);
+  });
+
+  test("parseTestResults test", () => {
+    const log = [
+      "2024-01-01 10:00:00,000 1 INFO db odoo.addons.sale.tests.test_sale: Starting TestSale.test_01 ...",
+      "2024-01-01 10:00:01,000 1 ERROR db odoo.addons.sale.tests.test_sale: FAIL: TestSale.test_01",
+      "Traceback (most recent call last):",
+      '  File "/odoo/addons/sale/tests/test_sale.py", line 12, in test_01',
+      "    self.assertEqual(1, 2)",
+      "AssertionError: 1 != 2",
+      "2024-01-01 10:00:01,000 1 INFO db odoo.addons.sale.tests.test_sale: Starting TestSale.test_02 ...",
+      "2024-01-01 10:00:02,000 1 ERROR db odoo.addons.sale.tests.test_sale: ERROR: setUpClass (odoo.addons.sale.tests.test_sale.TestOther)",
+      "Traceback (most recent call last):",
+      "ValueError: oops",
+    ].join("\n");
+    const results = parseTestResults(log);
+    assert.deepStrictEqual(
+      results.map((r) => [r.id, r.module, r.failures.map((f) => [f.flavour, f.error])]),
+      [
+        [
+          "sale.tests.test_sale:TestSale.test_01",
+          "tests.test_sale",
+          [["FAIL", "AssertionError: 1 != 2"]],
+        ],
+        ["sale.tests.test_sale:TestSale.test_02", "tests.test_sale", []],
+        [
+          "sale.tests.test_sale:TestOther.setUpClass",
+          "tests.test_sale",
+          [["ERROR", "ValueError: oops"]],
+        ],
+      ]
+    );
+    assert.deepStrictEqual(results[0].failures[0].frames, [
+      { file: "/odoo/addons/sale/tests/test_sale.py", line: 12, name: "test_01" },
+    ]);
+    assert.strictEqual(summarizeTestResults(results), "2 failed, 1 passed in sale");
+    assert.deepStrictEqual(getFailedTestTags(results), ["sale:TestSale.test_01", "sale:TestOther"]);
+  });
+
+  test("parseManifest test", () => {
+    const content = [
+      "# -*- coding: utf-8 -*-",
+      "{",
+      "    'name': 'Point of Sale # Restaurant',",
+      "    'version': '1.0',",
+      "    'summary': '''Multi-line",
+      "summary''',",
+      "    'depends': [",
+      "        'point_of_sale',  # the main app",
+      '        "web",',
+      "    ],",
+      "    'data': ['views/a.xml'] + [",
+      "        'views/b.xml',",
+      "    ],",
+      "    'assets': {",
+      "        'point_of_sale._assets_pos': [",
+      "            'pos_restaurant/static/src/**/*',",
+      "            ('remove', 'pos_restaurant/static/src/old/**/*'),",
+      "        ],",
+      "    },",
+      "    'external_dependencies': {'python': ('qrcode',)},",
+      "    'installable': False,",
+      "    'auto_install': ['point_of_sale'],",
+      "    'license': 'LGPL-3',",
+      "}",
+    ].join("\n");
+    const manifest = parseManifest(content);
+    assert.strictEqual(manifest.name, "Point of Sale # Restaurant");
+    assert.strictEqual(manifest.raw.summary, "Multi-line\nsummary");
+    assert.deepStrictEqual(manifest.depends, ["point_of_sale", "web"]);
+    assert.deepStrictEqual(manifest.data, ["views/a.xml", "views/b.xml"]);
+    assert.deepStrictEqual(manifest.assets["point_of_sale._assets_pos"], [
+      "pos_restaurant/static/src/**/*",
+      ["remove", "pos_restaurant/static/src/old/**/*"],
+    ]);
+    assert.deepStrictEqual(manifest.externalDependencies, { python: ["qrcode"], bin: [] });
+    assert.strictEqual(manifest.installable, false);
+    assert.deepStrictEqual(manifest.autoInstall, ["point_of_sale"]);
+    assert.strictEqual(manifest.license, "LGPL-3");
+    assert.deepStrictEqual(parseManifest("{'name': 'Foo'}").depends, []);
+    assert.throws(() => parseManifest("{'depends': ['web'"));
+  });
+
+  test("DependencyGraph test", () => {
+    const graph = new DependencyGraph({
+      base: [],
+      web: ["base"],
+      account: ["base", "web"],
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      point_of_sale: ["account", "web"],
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      pos_restaurant: ["point_of_sale"],
+    });
+    assert.deepStrictEqual(graph.getDependents("web"), ["account", "point_of_sale"]);
+    assert.deepStrictEqual(graph.getTransitiveDependents("web"), [
+      { addon: "account", depth: 1 },
+      { addon: "point_of_sale", depth: 1 },
+      { addon: "pos_restaurant", depth: 2 },
+    ]);
+    assert.deepStrictEqual(graph.getTransitiveDependents("base", 1), [
+      { addon: "account", depth: 1 },
+      { addon: "web", depth: 1 },
+    ]);
+    assert.deepStrictEqual(graph.getTransitiveDependents("pos_restaurant"), []);
+    assert.deepStrictEqual(graph.findDependencyPaths("pos_restaurant", "base"), {
+      paths: [
+        ["pos_restaurant", "point_of_sale", "account", "base"],
+        ["pos_restaurant", "point_of_sale", "web", "base"],
+        ["pos_restaurant", "point_of_sale", "account", "web", "base"],
+      ],
+      cycles: [],
+    });
+    assert.deepStrictEqual(graph.findDependencyPaths("web", "account").paths, []);
+  });
+
+  test("layoutDependencyGraph test", () => {
+    const graph = new DependencyGraph({
+      base: [],
+      web: ["base"],
+      mail: ["base", "web"],
+      account: ["mail"],
+    });
+    const addons = graph.getTransitiveDependencies(["account"]);
+    assert.deepStrictEqual(addons, ["account", "base", "mail", "web"]);
+    const layout = layoutDependencyGraph(graph, addons);
+    const layers = Object.fromEntries(layout.nodes.map((node) => [node.addon, node.layer]));
+    assert.deepStrictEqual(layers, { base: 0, web: 1, mail: 2, account: 3 });
+    const [account, base] = ["account", "base"].map((addon) =>
+      layout.nodes.find((node) => node.addon === addon)
+    );
+    assert.ok(account && base && account.y < base.y);
+    assert.strictEqual(layout.edges.length, 4);
+  });
+
+  test("parseAddonsPath test", () => {
+    assert.deepStrictEqual(
+      parseAddonsPath(" addons, ../enterprise,/src/design-themes/,,addons", "/src/odoo"),
+      ["/src/odoo/addons", "/src/enterprise", "/src/design-themes"]
+    );
+  });
+
+  test("sortCustomRepos test", () => {
+    const repos: [string, number][] = [
+      ["upgrade", 1],
+      ["design-themes", 2],
+      ["enterprise", 3],
+    ];
+    assert.deepStrictEqual(
+      sortCustomRepos(repos).map(([name]) => name),
+      ["enterprise", "design-themes", "upgrade"]
+    );
+  });
+
+  test("DependencyGraph cycles test", () => {
+    const graph = new DependencyGraph({ a: ["b"], b: ["c", "d"], c: ["a"], d: [] });
+    assert.deepStrictEqual(graph.findDependencyPaths("a", "d"), {
+      paths: [["a", "b", "d"]],
+      cycles: [["a", "b", "c", "a"]],
+    });
+
+    // `m` is reached by `p` while `p` is in the chain, then by `q` where `m -> p` is a path.
+    const converging = new DependencyGraph({
+      top: ["p", "q"],
+      p: ["m", "s"],
+      q: ["m"],
+      m: ["p", "t"],
+      s: ["base"],
+      t: ["base"],
+      base: [],
+    });
+    assert.deepStrictEqual(converging.findDependencyPaths("top", "base"), {
+      paths: [
+        ["top", "p", "s", "base"],
+        ["top", "p", "m", "t", "base"],
+        ["top", "q", "m", "t", "base"],
+        ["top", "q", "m", "p", "s", "base"],
+      ],
+      cycles: [["p", "m", "p"]],
+    });
+    assert.deepStrictEqual(converging.findDependencyPaths("top", "base", 2).paths, [
+      ["top", "p", "s", "base"],
+      ["top", "p", "m", "t", "base"],
+    ]);
+  });
+
+  test("splitArgs test", () => {
+    assert.deepStrictEqual(
+      splitArgs(` -u point_of_sale  --test-tags "/point_of_sale,/pos_restaurant" --dev=xml,reload`),
+      ["-u", "point_of_sale", "--test-tags", "/point_of_sale,/pos_restaurant", "--dev=xml,reload"]
+    );
+    assert.deepStrictEqual(splitArgs(`--db-filter='^a b$' c\\ d ""`), [
+      "--db-filter=^a b$",
+      "c d",
+      "",
+    ]);
+    assert.throws(() => splitArgs(`-d "unterminated`));
+    const args = [
+      "/opt/my venv/bin/python",
+      "--db-filter=^a b$",
+      `it's "quoted" $HOME`,
+      "",
+      "-d",
+      "master",
+    ];
+    assert.strictEqual(
+      joinArgs(args),
+      `'/opt/my venv/bin/python' '--db-filter=^a b$' "it's \\"quoted\\" \\$HOME" '' -d master`
+    );
+    assert.deepStrictEqual(splitArgs(joinArgs(args)), args);
+  });
+
+  test("getPortFromArgs test", () => {
+    assert.strictEqual(getPortFromArgs(["-d", "master", "-c", "/home/odoo/.odoorc"]), undefined);
+    assert.strictEqual(getPortFromArgs(["-p", "8070", "--dev=xml"]), 8070);
+    assert.strictEqual(getPortFromArgs(["--http-port", "8070", "--http-port=8071"]), 8071);
+  });
+
+  test("config overrides test", () => {
+    const overrides = mergeOverrides(
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { http_port: "8070", log_level: "debug" },
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { db_name: "master-fix", http_port: "8071" }
+    );
+    assert.deepStrictEqual(toArgs(overrides), [
+      "--database",
+      "master-fix",
+      "--http-port",
+      "8071",
+      "--log-level",
+      "debug",
+    ]);
+    assert.deepStrictEqual(toArgs(overrides, ["db_name"]), [
+      "--http-port",
+      "8071",
+      "--log-level",
+      "debug",
+    ]);
+  });
+
+  test("ServerLog test", () => {
+    assert.deepStrictEqual(
+      parseLogLine(
+        "2024-05-02 10:00:01,123 4242 \x1b[1;32m\x1b[1;49mINFO\x1b[0m master odoo.modules.loading: loading 1 modules..."
+      ),
+      {
+        timestamp: "2024-05-02 10:00:01,123",
+        pid: "4242",
+        level: "INFO",
+        db: "master",
+        logger: "odoo.modules.loading",
+        message: "loading 1 modules...",
+      }
+    );
+    assert.strictEqual(parseLogLine('  File "/odoo/models.py", line 42, in write'), undefined);
+
+    const log = new ServerLog(2);
+    const changed = log.feed(
+      [
+        "/usr/bin/python3 odoo-bin -d master",
+        "2024-05-02 10:00:01,123 4242 INFO ? odoo: Odoo version 17.0",
+        "2024-05-02 10:00:02,456 4242 ERROR master odoo.http: Exception during request handling.",
+        "Traceback (most recent call last):",
+        '  File "/odoo/http.py", line 1',
+      ].join("\n")
+    );
+    assert.deepStrictEqual(
+      changed.map((record) => record.message),
+      ["Odoo version 17.0", "Exception during request handling."]
+    );
+    // The last line is incomplete until the next chunk.
+    assert.deepStrictEqual(log.records[1].details, ["Traceback (most recent call last):"]);
+    const [error] = log.feed("234, in _serve_db\nValueError: oops\n");
+    assert.deepStrictEqual(error.details, [
+      "Traceback (most recent call last):",
+      '  File "/odoo/http.py", line 1234, in _serve_db',
+      "ValueError: oops",
+    ]);
+  });
+
+  test("LoadingErrorParser test", () => {
+    const parser = new LoadingErrorParser();
+    const errors: LoadingError[] = [];
+    const log = new ServerLog(undefined, (record) => {
+      const error = parser.parse(record);
+      if (error) {
+        errors.push(error);
+      }
+    });
+    log.feed(
+      [
+        "2024-05-02 10:00:01,000 42 INFO db odoo.modules.loading: Loading module sale (12/40)",
+        "2024-05-02 10:00:02,000 42 ERROR db odoo.http: Exception during request handling.",
+        "ValueError: not during the loading",
+        "2024-05-02 10:00:03,000 42 ERROR db odoo.modules.registry: Failed to load registry",
+        "Traceback (most recent call last):",
+        '  File "/odoo/odoo/tools/convert.py", line 698, in _tag_root',
+        "ValueError: External ID not found in the system: sale.missing_view",
+        "",
+        "The above exception was the direct cause of the following exception:",
+        "",
+        "odoo.tools.convert.ParseError: while parsing /odoo/addons/sale/views/sale.xml:12, somewhere inside",
+        '<record id="view_order_form" model="ir.ui.view">',
+        "2024-05-02 10:00:04,000 42 ERROR db odoo.sql_db: bad query: ALTER TABLE sale_order ...",
+        'ERROR: column "note" contains null values',
+        "2024-05-02 10:00:05,000 42 ERROR db odoo.modules.registry: Failed to load registry",
+        "Traceback (most recent call last):",
+        '  File "/odoo/addons/sale/models/sale_order.py", line 30, in _auto_init',
+        '  File "/odoo/odoo/sql_db.py", line 321, in execute',
+        'psycopg2.errors.NotNullViolation: column "note" contains null values',
+      ].join("\n")
+    );
+    log.end();
+    assert.deepStrictEqual(errors, [
+      {
+        message: "ValueError: External ID not found in the system: sale.missing_view",
+        file: "/odoo/addons/sale/views/sale.xml",
+        line: 12,
+        module: "sale",
+      },
+      {
+        message: 'bad query: ALTER TABLE sale_order ...\nERROR: column "note" contains null values',
+        line: 0,
+        module: "sale",
+      },
+      {
+        message: 'psycopg2.errors.NotNullViolation: column "note" contains null values',
+        file: "/odoo/addons/sale/models/sale_order.py",
+        line: 30,
+        module: "sale",
+      },
+    ]);
+  });
+
+  test("getChangedAddons test", () => {
+    const odooStats = parseNumstat(
+      [
+        "10\t2\taddons/sale/models/sale_order.py",
+        "3\t0\taddons/sale/views/sale_views.xml",
+        "-\t-\taddons/sale_stock/static/img/icon.png",
+        "1\t1\todoo/models.py",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(odooStats[2], {
+      file: "addons/sale_stock/static/img/icon.png",
+      added: 0,
+      deleted: 0,
+    });
+    const addons = [
+      { name: "sale", path: "/src/odoo/addons/sale", repo: "odoo" },
+      { name: "sale_stock", path: "/src/odoo/addons/sale_stock", repo: "odoo" },
+      { name: "sale_subscription", path: "/src/enterprise/sale_subscription", repo: "enterprise" },
+    ];
+    const stats: [string, FileDiffStat[]][] = [
+      ["/src/odoo", odooStats],
+      ["/src/enterprise", parseNumstat("4\t4\tsale_subscription/__manifest__.py\n")],
+    ];
+    assert.deepStrictEqual(getChangedAddons(stats, addons), [
+      { name: "sale", repo: "odoo", files: 2, added: 13, deleted: 2 },
+      { name: "sale_stock", repo: "odoo", files: 1, added: 0, deleted: 0 },
+      { name: "sale_subscription", repo: "enterprise", files: 1, added: 4, deleted: 4 },
+    ]);
+  });
+
+  test("tours test", () => {
+    const js = [
+      'import { registry } from "@web/core/registry";',
+      "",
+      'registry.category("web_tour.tours").add("ProductScreenTour", {',
+      "    test: true,",
+      "});",
+      "tour.register('legacy_tour', { test: true }, []);",
+    ].join("\n");
+    assert.deepStrictEqual(parseTourDefinitions(js), [
+      { name: "ProductScreenTour", line: 2 },
+      { name: "legacy_tour", line: 5 },
+    ]);
+
+    const python = [
+      "class TestUi(HttpCase):",
+      "    def test_01_product_screen(self):",
+      "        self.start_tour(",
+      '            "/pos/ui?config_id=%d" % self.config.id,',
+      "            'ProductScreenTour',",
+      '            login="pos_user",',
+      "        )",
+      "",
+      "    def test_02_legacy(self):",
+      '        self.start_pos_tour("legacy_tour")',
+    ].join("\n");
+    assert.deepStrictEqual(getTourTests(python, "point_of_sale"), [
+      {
+        testTag: "point_of_sale:TestUi.test_01_product_screen",
+        strings: ["/pos/ui?config_id=%d", "ProductScreenTour", "pos_user"],
+      },
+      { testTag: "point_of_sale:TestUi.test_02_legacy", strings: ["legacy_tour"] },
+    ]);
+    const strings = ["/pos/ui?config_id=%d&debug=1", "ProductScreenTour", "pos_user"];
+    assert.strictEqual(getTourUrl(strings, "ProductScreenTour"), "/pos/ui?debug=1");
+    assert.strictEqual(getTourUrl(["/pos/ui?config_id=%d"], "tour"), "/pos/ui");
+    assert.strictEqual(getTourUrl(["legacy_tour"], "legacy_tour"), undefined);
+  });
+
+  /**
+   * A `node -e` process in place of `odoo-bin`, with the promises of its output and of its exit.
+   */
+  const startNodeProcess = (script: string, stopTimeout?: number) => {
+    const server = new ServerProcess("node", ["-e", script], process.cwd(), stopTimeout);
+    let output = "";
+    const stops: ServerExit[] = [];
+    const waitForOutput = (text: string) =>
+      new Promise<void>((resolve) => {
+        const check = () => output.includes(text) && resolve();
+        server.onDidOutput(check);
+        check();
+      });
+    server.onDidOutput((text) => (output += text));
+    const stopped = new Promise<ServerExit>((resolve) => {
+      server.onDidStop((exit) => {
+        stops.push(exit);
+        resolve(exit);
+      });
+    });
+    server.open();
+    return { server, stops, stopped, waitForOutput, getOutput: () => output };
+  };
+
+  test("ServerProcess ready test", async () => {
+    const { server, stopped, waitForOutput } = startNodeProcess(
+      [
+        'process.stdout.write("INFO ? odoo.service.server: HTTP service (werk");',
+        'setTimeout(() => console.log("zeug) running on 0.0.0.0:8069"), 200);',
+        "setInterval(() => {}, 1000);",
+      ].join("\n")
+    );
+    const ready = new Promise<void>((resolve) => server.onDidBecomeReady(resolve));
+    assert.ok(server.isRunning);
+    await waitForOutput("(werk");
+    assert.ok(!server.isReady);
+    await ready;
+    assert.ok(server.isReady);
+    await server.stop();
+    assert.strictEqual((await stopped).signal, "SIGINT");
+    assert.ok(!server.isRunning && !server.isReady);
+  });
+
+  test("ServerProcess stop test", async () => {
+    const { server, stops, stopped, waitForOutput, getOutput } = startNodeProcess(
+      [
+        'for (const signal of ["SIGINT", "SIGTERM"]) {',
+        "  process.on(signal, () => console.log(`received ${signal}`));",
+        "}",
+        'console.log("started");',
+        "setInterval(() => {}, 1000);",
+      ].join("\n"),
+      100
+    );
+    await waitForOutput("started");
+    await server.stop();
+    assert.strictEqual((await stopped).signal, "SIGKILL");
+    assert.ok(getOutput().includes("received SIGINT\nreceived SIGTERM\n"));
+    assert.strictEqual(stops.length, 1);
+  });
+
+  test("ServerProcess error test", async () => {
+    const { server, stops, stopped, waitForOutput } = startNodeProcess(
+      'console.log("started"); setTimeout(() => {}, 200);'
+    );
+    await waitForOutput("started");
+    // E.g. a signal that could not be sent, the process is still running.
+    (server as unknown as { child: ChildProcess }).child.emit("error", new Error("kill EPERM"));
+    assert.ok(server.isRunning);
+    assert.deepStrictEqual(await stopped, { code: 0, signal: null });
+    assert.strictEqual(stops.length, 1);
+
+    // The process failed to spawn.
+    const failed = new ServerProcess("/nonexistent/odoo-bin", [], process.cwd());
+    const failedStops: ServerExit[] = [];
+    failed.onDidStop((exit) => failedStops.push(exit));
+    failed.open();
+    await failed.stop();
+    assert.deepStrictEqual(failedStops, [{ code: null, signal: null }]);
+  });
 });
@@ -0,0 +1,187 @@
+// Discovery of the tours (the JS tests of the web client) and of the python tests that run them.
+
+import * as fs from "fs";
+import * as path from "path";
+import { getTestAt, parseTestFile } from "./test-parser";
+
+export type TourDefinition = {
+  name: string;
+  /**
+   * 0-based line of the definition.
+   */
+  line: number;
+};
+
+export type TourCall = {
+  /**
+   * The string arguments of the call, one of them is the name of the tour. The url (the first
+   * argument of `start_tour`) can't be told apart from the name without the names of the tours.
+   */
+  strings: string[];
+  line: number;
+};
+
+export type TourInfo = TourDefinition & {
+  addon: string;
+  file: string;
+  /**
+   * Test tags of the python tests that run the tour, e.g. `point_of_sale:TestUi.test_01_pos`.
+   */
+  testTags: string[];
+  /**
+   * The page where the tests start the tour, e.g. `/odoo/action-sale.action_orders`.
+   */
+  url?: string;
+};
+
+/**
+ * `registry.category("web_tour.tours").add("name", {...})` and, in older versions,
+ * `tour.register("name", {...}, [...])`.
+ */
+const TOUR_DEFINITION_REGEXES = [
+  /\.category\(\s*["']web_tour\.tours["']\s*\)\s*\.add\(\s*["'`]([^"'`]+)["'`]/g,
+  /\btour\.register\(\s*["']([^"']+)["']/g,
+];
+/**
+ * `start_tour` of `HttpCase` and the helpers of the addons, e.g. `start_pos_tour`.
+ */
+const TOUR_CALL_REGEX = /\bstart_(?:\w+_)?tour\s*\(/g;
+const STRING_REGEX = /(["'])((?:\\.|(?!\1).)*?)\1/g;
+
+const getLine = (content: string, index: number) => content.slice(0, index).split("\n").length - 1;
+
+export function parseTourDefinitions(content: string): TourDefinition[] {
+  const definitions: TourDefinition[] = [];
+  for (const regex of TOUR_DEFINITION_REGEXES) {
+    for (const match of content.matchAll(regex)) {
+      definitions.push({ name: match[1], line: getLine(content, match.index || 0) });
+    }
+  }
+  return definitions.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Arguments of the call that starts at `start`, right after its opening parenthesis.
+ */
+function getCallArguments(content: string, start: number) {
+  let depth = 1;
+  let quote: string | undefined;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return content.slice(start, i);
+    }
+  }
+  return content.slice(start);
+}
+
+export function parseTourCalls(content: string): TourCall[] {
+  const calls: TourCall[] = [];
+  for (const match of content.matchAll(TOUR_CALL_REGEX)) {
+    const index = match.index || 0;
+    const args = getCallArguments(content, index + match[0].length);
+    const strings = [...args.matchAll(STRING_REGEX)].map((m) => m[2]);
+    calls.push({ strings, line: getLine(content, index) });
+  }
+  return calls;
+}
+
+/**
+ * Test tags of the test methods that start tours, with the string arguments of the calls.
+ */
+export function getTourTests(content: string, addon: string) {
+  const classes = parseTestFile(content);
+  const tests: { testTag: string; strings: string[] }[] = [];
+  for (const call of parseTourCalls(content)) {
+    const { testClass, testMethod } = getTestAt(classes, call.line);
+    if (testClass && testMethod) {
+      tests.push({
+        testTag: `${addon}:${testClass.name}.${testMethod.name}`,
+        strings: call.strings,
+      });
+    }
+  }
+  return tests;
+}
+
+/**
+ * The url of the call that starts the tour `name`: its first argument when it's a path. The query
+ * parameters that are formatted by the test, e.g. `config_id=%d`, are dropped.
+ */
+export function getTourUrl(strings: string[], name: string) {
+  const [url] = strings;
+  if (!url || url === name || !url.startsWith("/")) {
+    return;
+  }
+  const [urlPath, query = ""] = url.split("?");
+  const params = query.split("&").filter((param) => param && !/%|\{/.test(param));
+  return params.length > 0 ? `${urlPath}?${params.join("&")}` : urlPath;
+}
+
+/**
+ * Files of the folder (recursively) that satisfy `predicate`, the libraries are skipped.
+ */
+async function findFiles(folder: string, predicate: (filePath: string) => boolean) {
+  const files: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(folder, { withFileTypes: true });
+  } catch (error) {
+    return files;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(folder, entry.name);
+    if (entry.isDirectory() && !["lib", "node_modules"].includes(entry.name)) {
+      files.push(...(await findFiles(entryPath, predicate)));
+    } else if (entry.isFile() && predicate(entryPath)) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * The tours defined in the `static` folder of the addons, with the python tests that run them.
+ * The tours are looked for in the js files with `tour` in their path, e.g. `static/tests/tours`.
+ */
+export async function findTours(addons: { name: string; path: string }[]): Promise<TourInfo[]> {
+  const definitions: Omit<TourInfo, "testTags">[] = [];
+  const tests: { testTag: string; strings: string[] }[] = [];
+  for (const addon of addons) {
+    const isTourFile = (filePath: string) =>
+      filePath.endsWith(".js") && /tour/i.test(path.relative(addon.path, filePath));
+    for (const file of await findFiles(path.join(addon.path, "static"), isTourFile)) {
+      const content = await fs.promises.readFile(file, "utf-8");
+      for (const definition of parseTourDefinitions(content)) {
+        definitions.push({ ...definition, addon: addon.name, file });
+      }
+    }
+    const isPythonFile = (filePath: string) => filePath.endsWith(".py");
+    for (const file of await findFiles(path.join(addon.path, "tests"), isPythonFile)) {
+      const content = await fs.promises.readFile(file, "utf-8");
+      if (content.includes("_tour")) {
+        tests.push(...getTourTests(content, addon.name));
+      }
+    }
+  }
+  return definitions
+    .map((definition) => {
+      const tourTests = tests.filter((test) => test.strings.includes(definition.name));
+      const testTags = tourTests.map((test) => test.testTag);
+      const url = tourTests
+        .map((test) => getTourUrl(test.strings, definition.name))
+        .find((u) => u !== undefined);
+      return { ...definition, testTags: [...new Set(testTags)], url };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,79 @@
+// Helpers for the worktree mode.
+// Each dev branch gets its own folder (a "worktree set") under the worktrees root,
+// and each repository gets a `git worktree` inside that folder, e.g.
+// `<root>/16.0-foo-bar/odoo`, `<root>/16.0-foo-bar/enterprise`, `<root>/16.0-foo-bar/upgrade`.
+
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import { getFoldersInDirectory, isValidDirectory, runCommand, runShellCommand } from "./helpers";
+
+export type WorktreeRef =
+  | { branch: string }
+  | { newBranch: string; base: string }
+  | { detach: string };
+
+export function isWorktreeMode() {
+  return vscode.workspace.getConfiguration("odooDev").useWorktrees as boolean;
+}
+
+export function getWorktreesRoot() {
+  const root = (vscode.workspace.getConfiguration("odooDev").worktreesRoot || "") as string;
+  if (root === "") {
+    return path.join(os.homedir(), "odoo-worktrees");
+  }
+  return root.replace(/^~(?=$|\/)/, os.homedir());
+}
+
+export function getWorktreeSetPath(branch: string) {
+  return path.join(getWorktreesRoot(), branch);
+}
+
+export function getWorktreePath(branch: string, repoName: string) {
+  return path.join(getWorktreeSetPath(branch), repoName);
+}
+
+export function hasWorktreeSet(branch: string) {
+  return isValidDirectory(getWorktreeSetPath(branch));
+}
+
+export function getWorktreeSets() {
+  const root = getWorktreesRoot();
+  if (!isValidDirectory(root)) {
+    return [];
+  }
+  return getFoldersInDirectory(root);
+}
+
+/**
+ * True if `fsPath` is inside the worktrees root. Repositories opened from there
+ * shouldn't be mistaken as the main repositories.
+ */
+export function isInWorktreesRoot(fsPath: string) {
+  const relative = path.relative(getWorktreesRoot(), fsPath);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * The branch names are typed by the user, git is run without shell.
+ */
+export async function addWorktree(repoPath: string, worktreePath: string, ref: WorktreeRef) {
+  let args: string[];
+  if ("newBranch" in ref) {
+    args = ["-b", ref.newBranch, worktreePath, ref.base];
+  } else if ("detach" in ref) {
+    args = ["--detach", worktreePath, ref.detach];
+  } else {
+    args = [worktreePath, ref.branch];
+  }
+  await runCommand("git", ["worktree", "add", ...args], { cwd: repoPath });
+}
+
+export async function removeWorktree(repoPath: string, worktreePath: string) {
+  await runCommand("git", ["worktree", "remove", "--force", worktreePath], { cwd: repoPath });
+}
+
+export async function isWorktreeClean(worktreePath: string) {
+  const status = await runShellCommand("git status --porcelain", { cwd: worktreePath });
+  return status.trim().length === 0;
+}